@@ -1,11 +1,26 @@
 import { pluginReact } from "@rsbuild/plugin-react";
 import { defineConfig } from "@rslib/core";
 
+// Browser entry (bundleless, one output file per source file)
+const browserSource = {
+  entry: {
+    index: ["./src/**/*.{ts,tsx}", "!./src/_storybook/**", "!./src/node.ts"],
+  },
+};
+
+// Node entry (react-audio-wavekit/node), bundled so its declarations can be bundled too
+const nodeSource = {
+  entry: {
+    node: "./src/node.ts",
+  },
+};
+
 export default defineConfig({
   lib: [
     {
       format: "esm",
       bundle: false,
+      source: browserSource,
       dts: { bundle: true },
       output: {
         distPath: { root: "./dist" },
@@ -19,6 +34,7 @@ export default defineConfig({
     {
       format: "cjs",
       bundle: false,
+      source: browserSource,
       output: {
         distPath: { root: "./dist" },
       },
@@ -27,12 +43,32 @@ export default defineConfig({
         peerDependencies: true,
       },
     },
-  ],
-  source: {
-    entry: {
-      index: ["./src/**/*.{ts,tsx}", "!./src/_storybook/**"],
+    {
+      format: "esm",
+      source: nodeSource,
+      dts: { bundle: true },
+      output: {
+        target: "node",
+        distPath: { root: "./dist" },
+      },
+      autoExternal: {
+        dependencies: false,
+        peerDependencies: true,
+      },
     },
-  },
+    {
+      format: "cjs",
+      source: nodeSource,
+      output: {
+        target: "node",
+        distPath: { root: "./dist" },
+      },
+      autoExternal: {
+        dependencies: false,
+        peerDependencies: true,
+      },
+    },
+  ],
   output: {
     target: "web",
     externals: ["@types/react"],
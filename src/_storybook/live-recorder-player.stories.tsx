@@ -2,6 +2,7 @@ import type { Meta, StoryObj } from "@storybook/react";
 import { useEffect, useRef } from "react";
 import { LiveRecorder } from "../recorder/live-recorder";
 import { useAudioRecorder } from "../recorder/use-audio-recorder";
+import type { LiveRecorderMode } from "../types";
 
 function LiveRecorderPlayer() {
   const { startRecording, stopRecording, pauseRecording, resumeRecording, mediaRecorder, isRecording, isPaused } =
@@ -221,6 +222,8 @@ interface PlaygroundArgs {
   barRadius: number;
   barRadiusFull: boolean;
   barHeightScale: number;
+  mode: LiveRecorderMode;
+  peakHold: boolean;
 }
 
 // Playground story: Adjust appearance properties in Controls panel
@@ -262,6 +265,8 @@ export const Playground: StoryObj<PlaygroundArgs> = {
           <LiveRecorder
             mediaRecorder={mediaRecorder}
             className="h-12 w-72 rounded-sm bg-slate-100"
+            mode={args.mode}
+            peakHold={args.peakHold}
             appearance={{
               barColor: args.barColor,
               barWidth: args.barWidth,
@@ -290,6 +295,8 @@ export const Playground: StoryObj<PlaygroundArgs> = {
     barRadius: 1.5,
     barRadiusFull: false,
     barHeightScale: 0.95,
+    mode: "waveform",
+    peakHold: true,
   },
   argTypes: {
     barColor: { control: "color", description: "Bar color (CSS color)" },
@@ -305,6 +312,16 @@ export const Playground: StoryObj<PlaygroundArgs> = {
       control: { type: "range", min: 0.1, max: 1, step: 0.05 },
       description: "Bar height scale (0.0-1.0)",
     },
+    mode: {
+      control: "inline-radio",
+      options: ["waveform", "spectrum", "oscilloscope"],
+      description: "Time-domain bars, log-frequency spectrum or oscilloscope line",
+    },
+    peakHold: {
+      control: "boolean",
+      description: "Peak-hold caps above spectrum bars",
+      if: { arg: "mode", eq: "spectrum" },
+    },
   },
   parameters: {
     layout: "fullscreen",
@@ -17,6 +17,45 @@ export const DEFAULT_PLAYHEAD_APPEARANCE = {
   playheadWidth: 2,
 } as const;
 
+export const DEFAULT_HOVER_APPEARANCE = {
+  hoverCursorColor: "rgba(100, 116, 139, 0.6)",
+  hoverCursorWidth: 1,
+} as const;
+
+export const DEFAULT_MARKER_APPEARANCE = {
+  markerColor: "#f59e0b",
+  markerWidth: 1,
+  markerSpanOpacity: 0.2,
+  markerFont: "11px sans-serif",
+} as const;
+
+export const DEFAULT_REGION_APPEARANCE = {
+  regionColor: "#10b981",
+  regionOpacity: 0.2,
+  regionHandleWidth: 2,
+} as const;
+
+export const DEFAULT_TIMELINE_APPEARANCE = {
+  timelineColor: "rgba(100, 116, 139, 0.9)",
+  timelineFont: "10px sans-serif",
+} as const;
+
+export const DEFAULT_SELECTION_APPEARANCE = {
+  selectionColor: "rgba(59, 130, 246, 0.2)",
+  selectionHandleColor: "#3b82f6",
+  selectionHandleWidth: 4,
+} as const;
+
+// Quietest level shown on the dB amplitude scale (dB below the normalization reference)
+export const DEFAULT_DB_FLOOR = -60;
+
+// Pointer travel (CSS pixels) before a press becomes a drag-to-seek, by pointer type
+// Mice drag immediately, fingers need slack so taps and scroll gestures don't scrub
+export const DRAG_THRESHOLD: Record<string, number> = { mouse: 0, pen: 4, touch: 8 };
+
+// Deepest wheel/pinch zoom for AudioWaveform (pixels per second)
+export const DEFAULT_MAX_ZOOM = 200;
+
 export const DEFAULT_SCROLLBAR_APPEARANCE: Required<ScrollbarAppearance> = {
   thumbColor: "rgba(148, 163, 184, 0.5)",
   hidden: false,
@@ -1,12 +1,60 @@
 // Components
 
-export { LiveRecorder } from "./recorder/live-recorder/index.js";
+export { AudioPlayer } from "./player/player-compound.js";
+export { LiveRecorder, LiveRecorderProvider } from "./recorder/live-recorder/index.js";
 export { LiveStreamingRecorder } from "./recorder/live-streaming/recorder/recorder-compound.js";
 export { LiveStreamingStackRecorder } from "./recorder/live-streaming/stack-recorder/stack-recorder-compound.js";
-// Types (for customizing appearance props and hook return type)
-export type { UseAudioRecorderReturn } from "./recorder/use-audio-recorder.js";
+export { AudioSpectrogram } from "./spectrogram/index.js";
+export { AudioWaveform } from "./waveform/index.js";
+
+// Hooks
 
-// Hook
+export { useAudioPlayerContext } from "./player/player-context.js";
+export { useAudioPlayer } from "./player/use-audio-player.js";
+export { useLiveAudioData, useLiveRecorderContext } from "./recorder/live-recorder/index.js";
+export { useRecordingAmplitudes } from "./recorder/live-streaming/use-recording-amplitudes.js";
+export { useAudioInputDevices } from "./recorder/use-audio-input-devices.js";
 export { useAudioRecorder } from "./recorder/use-audio-recorder.js";
-export type { AudioWaveformAppearance, ScrollbarAppearance, WaveformAppearance } from "./types.js";
-export { AudioWaveform } from "./waveform/index.js";
+
+// Types (for customizing appearance props and hook options/return types)
+
+export type { UseAudioPlayerOptions, UseAudioPlayerReturn } from "./player/use-audio-player.js";
+export type { UseLiveAudioDataOptions, UseLiveAudioDataReturn } from "./recorder/live-recorder/index.js";
+export type {
+  UseRecordingAmplitudesOptions,
+  UseRecordingAmplitudesReturn,
+} from "./recorder/live-streaming/use-recording-amplitudes.js";
+export type { AudioInputDevice, UseAudioInputDevicesReturn } from "./recorder/use-audio-input-devices.js";
+export type { RecorderPermissionState, UseAudioRecorderReturn } from "./recorder/use-audio-recorder.js";
+export type { RecorderError, RecorderErrorCode, RecorderErrorDetails } from "./recorder/util-recorder-error.js";
+export type {
+  AmplitudeScaleOptions,
+  AudioSpectrogramAppearance,
+  AudioWaveformAppearance,
+  LiveRecorderAppearance,
+  LiveRecorderMode,
+  ScrollbarAppearance,
+  SpectrogramColorMap,
+  SpectrogramFrequencyScale,
+  SpectrogramWindowFunction,
+  TimelineAppearance,
+  WaveformAppearance,
+  WaveformHoverInfo,
+  WaveformMarker,
+  WaveformNormalize,
+  WaveformPeakMode,
+  WaveformPeaksData,
+  WaveformRegion,
+  WaveformRegionChange,
+  WaveformRegionOverlap,
+  WaveformScale,
+  WaveformSelection,
+} from "./types.js";
+export type { AudioDecoderMode, AudioSegment, WaveformChannelMode } from "./waveform/util-audio-decoder.js";
+export type { AudioFetchOptions } from "./waveform/util-audio-fetch.js";
+
+// Utilities
+
+export { concatAudioBlobs, cutAudioBlob, trimAudioBlob } from "./waveform/util-audio-decoder.js";
+export { parsePeaksData, serializePeaksData } from "./waveform/util-peaks-data.js";
+export { encodeWav } from "./waveform/util-wav-encoder.js";
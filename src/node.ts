@@ -0,0 +1,13 @@
+// Node entry (react-audio-wavekit/node) - server-side peak generation without React or Web Audio
+
+export type {
+  AmplitudeScaleOptions,
+  WaveformNormalize,
+  WaveformPeakMode,
+  WaveformPeaksData,
+  WaveformScale,
+} from "./types.js";
+export type { DecodedAudio } from "./waveform/util-audio-decoder.js";
+export type { AudioInput, GeneratePeaksOptions } from "./waveform/util-node-peaks.js";
+export { decodeAudioBuffer, generatePeaks, generatePeaksData } from "./waveform/util-node-peaks.js";
+export { parsePeaksData, serializePeaksData } from "./waveform/util-peaks-data.js";
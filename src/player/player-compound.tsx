@@ -0,0 +1,243 @@
+import {
+  type ButtonHTMLAttributes,
+  forwardRef,
+  type HTMLAttributes,
+  type InputHTMLAttributes,
+  type ReactNode,
+  type SelectHTMLAttributes,
+  useRef,
+} from "react";
+import { AudioWaveform, type AudioWaveformProps, type AudioWaveformRef } from "../waveform";
+import { formatTime } from "../waveform/util-format-time";
+import { AudioPlayerProvider, useAudioPlayerContext } from "./player-context";
+import type { UseAudioPlayerOptions } from "./use-audio-player";
+
+// ============================================================================
+// AudioPlayer.Root
+// ============================================================================
+
+export interface AudioPlayerRootProps
+  extends UseAudioPlayerOptions,
+    Omit<HTMLAttributes<HTMLDivElement>, "children" | "onEnded"> {
+  children: ReactNode | ((value: ReturnType<typeof useAudioPlayerContext>) => ReactNode);
+}
+
+const AudioPlayerRoot = forwardRef<HTMLDivElement, AudioPlayerRootProps>(function AudioPlayerRoot(
+  { children, blob, src, audioContext, defaultVolume, defaultPlaybackRate, loop, onEnded, ...props },
+  ref
+) {
+  return (
+    <div ref={ref} {...props}>
+      <AudioPlayerProvider
+        blob={blob}
+        src={src}
+        audioContext={audioContext}
+        defaultVolume={defaultVolume}
+        defaultPlaybackRate={defaultPlaybackRate}
+        loop={loop}
+        onEnded={onEnded}
+      >
+        {children}
+      </AudioPlayerProvider>
+    </div>
+  );
+});
+
+// ============================================================================
+// AudioPlayer.Waveform
+// ============================================================================
+
+export interface AudioPlayerWaveformProps
+  extends Omit<AudioWaveformProps, "blob" | "src" | "currentTime" | "duration"> {}
+
+/**
+ * AudioWaveform wired to the player: shows the playhead and seeks on click/drag
+ * Draws the player's blob (a `src` is fetched once by the Root), and pauses playback while dragging
+ */
+const AudioPlayerWaveform = forwardRef<AudioWaveformRef, AudioPlayerWaveformProps>(function AudioPlayerWaveform(
+  { onSeek, onSeekStart, onSeekDrag, onSeekEnd, ...props },
+  ref
+) {
+  const { blob, currentTime, duration, isPlaying, play, pause, seek } = useAudioPlayerContext();
+  // Whether to resume after the drag ends
+  const wasPlayingRef = useRef(false);
+
+  return (
+    <AudioWaveform
+      ref={ref}
+      blob={blob}
+      currentTime={currentTime}
+      duration={duration}
+      onSeek={(time) => {
+        seek(time);
+        onSeek?.(time);
+      }}
+      onSeekStart={() => {
+        wasPlayingRef.current = isPlaying;
+        pause();
+        onSeekStart?.();
+      }}
+      onSeekDrag={(time) => {
+        seek(time);
+        onSeekDrag?.(time);
+      }}
+      onSeekEnd={(time) => {
+        seek(time);
+        if (wasPlayingRef.current) {
+          void play();
+        }
+        onSeekEnd?.(time);
+      }}
+      {...props}
+    />
+  );
+});
+
+// ============================================================================
+// AudioPlayer.PlayButton
+// ============================================================================
+
+export interface AudioPlayerPlayButtonProps extends Omit<ButtonHTMLAttributes<HTMLButtonElement>, "children"> {
+  /** Button content, or a render function receiving the playing state. Default: "Play" / "Pause" */
+  children?: ReactNode | ((isPlaying: boolean) => ReactNode);
+}
+
+const AudioPlayerPlayButton = forwardRef<HTMLButtonElement, AudioPlayerPlayButtonProps>(function AudioPlayerPlayButton(
+  { children, onClick, disabled, ...props },
+  ref
+) {
+  const { isPlaying, toggle, audioElement, blob } = useAudioPlayerContext();
+  const content = typeof children === "function" ? children(isPlaying) : (children ?? (isPlaying ? "Pause" : "Play"));
+
+  return (
+    <button
+      ref={ref}
+      type="button"
+      aria-label={isPlaying ? "Pause" : "Play"}
+      disabled={disabled ?? (!audioElement || !blob)}
+      onClick={(e) => {
+        toggle();
+        onClick?.(e);
+      }}
+      {...props}
+    >
+      {content}
+    </button>
+  );
+});
+
+// ============================================================================
+// AudioPlayer.Time
+// ============================================================================
+
+export interface AudioPlayerTimeProps extends Omit<HTMLAttributes<HTMLSpanElement>, "children"> {
+  /**
+   * Which time to show: "current", "duration", "remaining" (prefixed with "-") or "both" ("current / duration")
+   * @default "both"
+   */
+  display?: "current" | "duration" | "remaining" | "both";
+  /** Custom time formatter (seconds to text). Default: "m:ss" */
+  format?: (seconds: number) => string;
+}
+
+const AudioPlayerTime = forwardRef<HTMLSpanElement, AudioPlayerTimeProps>(function AudioPlayerTime(
+  { display = "both", format = formatTime, ...props },
+  ref
+) {
+  const { currentTime, duration } = useAudioPlayerContext();
+
+  let text: string;
+  switch (display) {
+    case "current":
+      text = format(currentTime);
+      break;
+    case "duration":
+      text = format(duration);
+      break;
+    case "remaining":
+      text = `-${format(Math.max(0, duration - currentTime))}`;
+      break;
+    default:
+      text = `${format(currentTime)} / ${format(duration)}`;
+  }
+
+  return (
+    <span ref={ref} {...props}>
+      {text}
+    </span>
+  );
+});
+
+// ============================================================================
+// AudioPlayer.VolumeSlider
+// ============================================================================
+
+export interface AudioPlayerVolumeSliderProps
+  extends Omit<InputHTMLAttributes<HTMLInputElement>, "type" | "value" | "min" | "max" | "onChange"> {}
+
+const AudioPlayerVolumeSlider = forwardRef<HTMLInputElement, AudioPlayerVolumeSliderProps>(
+  function AudioPlayerVolumeSlider({ step = 0.01, ...props }, ref) {
+    const { volume, setVolume } = useAudioPlayerContext();
+
+    return (
+      <input
+        ref={ref}
+        type="range"
+        aria-label="Volume"
+        min={0}
+        max={1}
+        step={step}
+        value={volume}
+        onChange={(e) => setVolume(Number(e.target.value))}
+        {...props}
+      />
+    );
+  }
+);
+
+// ============================================================================
+// AudioPlayer.PlaybackRate
+// ============================================================================
+
+const DEFAULT_PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2];
+
+export interface AudioPlayerPlaybackRateProps
+  extends Omit<SelectHTMLAttributes<HTMLSelectElement>, "value" | "onChange" | "children"> {
+  /** Selectable playback rates. Default: [0.5, 0.75, 1, 1.25, 1.5, 2] */
+  rates?: number[];
+}
+
+const AudioPlayerPlaybackRate = forwardRef<HTMLSelectElement, AudioPlayerPlaybackRateProps>(
+  function AudioPlayerPlaybackRate({ rates = DEFAULT_PLAYBACK_RATES, ...props }, ref) {
+    const { playbackRate, setPlaybackRate } = useAudioPlayerContext();
+
+    return (
+      <select
+        ref={ref}
+        aria-label="Playback rate"
+        value={playbackRate}
+        onChange={(e) => setPlaybackRate(Number(e.target.value))}
+        {...props}
+      >
+        {rates.map((rate) => (
+          <option key={rate} value={rate}>
+            {rate}x
+          </option>
+        ))}
+      </select>
+    );
+  }
+);
+
+// ============================================================================
+// Compound Component Composition
+// ============================================================================
+
+export const AudioPlayer = Object.assign(AudioPlayerRoot, {
+  Root: AudioPlayerRoot,
+  Waveform: AudioPlayerWaveform,
+  PlayButton: AudioPlayerPlayButton,
+  Time: AudioPlayerTime,
+  VolumeSlider: AudioPlayerVolumeSlider,
+  PlaybackRate: AudioPlayerPlaybackRate,
+});
@@ -0,0 +1,68 @@
+import { createContext, type ReactNode, useContext, useEffect, useState } from "react";
+import { acquireFetchedAudio } from "../waveform/util-audio-fetch";
+import { type UseAudioPlayerOptions, type UseAudioPlayerReturn, useAudioPlayer } from "./use-audio-player";
+
+// Context type definition
+type AudioPlayerContextValue = UseAudioPlayerReturn;
+
+// Create context
+const AudioPlayerContext = createContext<AudioPlayerContextValue | null>(null);
+
+// Provider Props
+export interface AudioPlayerProviderProps extends UseAudioPlayerOptions {
+  children: ReactNode | ((value: AudioPlayerContextValue) => ReactNode);
+}
+
+/**
+ * AudioPlayer Context Provider
+ * Root component that provides playback state and controls to child components
+ * A `src` is downloaded once and played from memory, so the waveform draws the same blob instead of fetching it again
+ */
+export function AudioPlayerProvider({ children, blob, src, ...options }: AudioPlayerProviderProps) {
+  const [fetched, setFetched] = useState<{ src: string; blob: Blob } | null>(null);
+  const [fetchError, setFetchError] = useState<Error | null>(null);
+  const fetchSrc = blob ? undefined : src;
+
+  // Shared download (released on change/unmount)
+  useEffect(() => {
+    setFetchError(null);
+    if (!fetchSrc) return;
+
+    const { promise, release } = acquireFetchedAudio(fetchSrc);
+    let cancelled = false;
+    promise.then(
+      (data) => {
+        if (!cancelled) setFetched({ src: fetchSrc, blob: data });
+      },
+      (err) => {
+        if (!cancelled) setFetchError(err instanceof Error ? err : new Error(err?.message || "Failed to fetch audio"));
+      }
+    );
+
+    return () => {
+      cancelled = true;
+      release();
+    };
+  }, [fetchSrc]);
+
+  const fetchedBlob = fetched && fetched.src === fetchSrc ? fetched.blob : null;
+  const player = useAudioPlayer({ ...options, blob: blob ?? fetchedBlob });
+  const value: AudioPlayerContextValue = { ...player, src, error: player.error ?? fetchError };
+
+  // Support render props pattern
+  const content = typeof children === "function" ? children(value) : children;
+
+  return <AudioPlayerContext.Provider value={value}>{content}</AudioPlayerContext.Provider>;
+}
+
+/**
+ * AudioPlayer Context hook
+ * Must be used within AudioPlayer.Root component
+ */
+export function useAudioPlayerContext(): AudioPlayerContextValue {
+  const context = useContext(AudioPlayerContext);
+  if (!context) {
+    throw new Error("useAudioPlayerContext must be used within AudioPlayer.Root");
+  }
+  return context;
+}
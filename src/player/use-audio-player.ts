@@ -0,0 +1,294 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+export interface UseAudioPlayerOptions {
+  /** Audio blob to play (takes precedence over `src`) */
+  blob?: Blob | null;
+  /** Audio URL to play */
+  src?: string;
+  /**
+   * Route playback through this AudioContext (via MediaElementAudioSourceNode) instead of
+   * playing the element directly. Use `sourceNode` to insert your own nodes (gain, EQ, analyser)
+   */
+  audioContext?: AudioContext;
+  /** Initial volume (0-1). Default: 1 */
+  defaultVolume?: number;
+  /** Initial playback rate. Default: 1 */
+  defaultPlaybackRate?: number;
+  /** Restart from the beginning when playback reaches the end. Default: false */
+  loop?: boolean;
+  /** Callback when playback reaches the end */
+  onEnded?: () => void;
+}
+
+export interface UseAudioPlayerReturn {
+  /** Start playback (resumes the AudioContext when routed through Web Audio) */
+  play: () => Promise<void>;
+  /** Pause playback */
+  pause: () => void;
+  /** Toggle between play and pause */
+  toggle: () => void;
+  /** Jump to a time in seconds (clamped to the duration) */
+  seek: (time: number) => void;
+  /** Set the volume (0-1) */
+  setVolume: (volume: number) => void;
+  /** Set the playback rate (1 = normal speed) */
+  setPlaybackRate: (rate: number) => void;
+  /** The underlying audio element (null until mounted) */
+  audioElement: HTMLAudioElement | null;
+  /** Web Audio source node (only when `audioContext` is provided) */
+  sourceNode: MediaElementAudioSourceNode | null;
+  /** Blob being played (for rendering its waveform) */
+  blob: Blob | null;
+  /** URL being played (for rendering its waveform when no blob is provided) */
+  src: string | undefined;
+  /** Current playback time in seconds (updated every frame while playing) */
+  currentTime: number;
+  /** Audio duration in seconds (0 until metadata is loaded) */
+  duration: number;
+  /** Whether audio is currently playing */
+  isPlaying: boolean;
+  /** Current volume (0-1) */
+  volume: number;
+  /** Current playback rate */
+  playbackRate: number;
+  /** Media or playback error */
+  error: Error | null;
+}
+
+/**
+ * Headless audio player hook
+ * Owns an HTMLAudioElement (optionally routed through Web Audio) and exposes state for waveform playheads
+ */
+export const useAudioPlayer = (options: UseAudioPlayerOptions = {}): UseAudioPlayerReturn => {
+  const { blob = null, src, audioContext, defaultVolume = 1, defaultPlaybackRate = 1, loop = false, onEnded } = options;
+
+  const [audioElement, setAudioElement] = useState<HTMLAudioElement | null>(null);
+  const [sourceNode, setSourceNode] = useState<MediaElementAudioSourceNode | null>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [volume, setVolumeState] = useState(defaultVolume);
+  const [playbackRate, setPlaybackRateState] = useState(defaultPlaybackRate);
+  const [error, setError] = useState<Error | null>(null);
+
+  const animationRef = useRef<number | null>(null);
+  const onEndedRef = useRef(onEnded);
+  onEndedRef.current = onEnded;
+  // Initial values only (later changes go through setVolume/setPlaybackRate)
+  const initialRef = useRef({ volume: defaultVolume, playbackRate: defaultPlaybackRate });
+
+  // Create the element on the client (keeps the hook SSR-safe)
+  // A MediaElementAudioSourceNode can only be created once per element, so a new context needs a new element
+  useEffect(() => {
+    const audio = new Audio();
+    audio.preload = "metadata";
+    audio.volume = initialRef.current.volume;
+    audio.playbackRate = initialRef.current.playbackRate;
+
+    let node: MediaElementAudioSourceNode | null = null;
+    if (audioContext) {
+      node = audioContext.createMediaElementSource(audio);
+      node.connect(audioContext.destination);
+    }
+
+    setAudioElement(audio);
+    setSourceNode(node);
+
+    return () => {
+      audio.pause();
+      audio.removeAttribute("src");
+      audio.load();
+      node?.disconnect();
+    };
+  }, [audioContext]);
+
+  useEffect(() => {
+    if (audioElement) {
+      audioElement.loop = loop;
+    }
+  }, [audioElement, loop]);
+
+  // Load the source (blob URLs are revoked when the blob changes or on unmount)
+  useEffect(() => {
+    if (!audioElement) return;
+
+    const url = blob ? URL.createObjectURL(blob) : src;
+    setCurrentTime(0);
+    setDuration(0);
+    setIsPlaying(false);
+    setError(null);
+
+    if (url) {
+      audioElement.src = url;
+    } else {
+      audioElement.removeAttribute("src");
+    }
+    audioElement.load();
+
+    return () => {
+      audioElement.pause();
+      if (blob && url) {
+        URL.revokeObjectURL(url);
+      }
+    };
+  }, [audioElement, blob, src]);
+
+  // Sync React state with media events
+  useEffect(() => {
+    if (!audioElement) return;
+
+    const updateDuration = () => {
+      const { duration: mediaDuration } = audioElement;
+      // MediaRecorder webm files report Infinity until the end is reached; seeking far forces the real duration
+      if (mediaDuration === Number.POSITIVE_INFINITY) {
+        audioElement.currentTime = Number.MAX_SAFE_INTEGER;
+        return;
+      }
+      if (Number.isFinite(mediaDuration)) {
+        setDuration(mediaDuration);
+        // Undo the Infinity workaround seek
+        if (audioElement.currentTime > mediaDuration) {
+          audioElement.currentTime = 0;
+        }
+      }
+    };
+    const handlePlay = () => setIsPlaying(true);
+    const handlePause = () => setIsPlaying(false);
+    const handleTimeUpdate = () => {
+      // Ignore the Infinity workaround seek until the real duration is known
+      if (Number.isFinite(audioElement.duration)) {
+        setCurrentTime(audioElement.currentTime);
+      }
+    };
+    const handleEnded = () => {
+      setIsPlaying(false);
+      onEndedRef.current?.();
+    };
+    const handleVolumeChange = () => setVolumeState(audioElement.volume);
+    const handleRateChange = () => setPlaybackRateState(audioElement.playbackRate);
+    const handleError = () => {
+      setIsPlaying(false);
+      setError(new Error(audioElement.error?.message || "Failed to load audio"));
+    };
+
+    audioElement.addEventListener("loadedmetadata", updateDuration);
+    audioElement.addEventListener("durationchange", updateDuration);
+    audioElement.addEventListener("play", handlePlay);
+    audioElement.addEventListener("pause", handlePause);
+    audioElement.addEventListener("timeupdate", handleTimeUpdate);
+    audioElement.addEventListener("seeked", handleTimeUpdate);
+    audioElement.addEventListener("ended", handleEnded);
+    audioElement.addEventListener("volumechange", handleVolumeChange);
+    audioElement.addEventListener("ratechange", handleRateChange);
+    audioElement.addEventListener("error", handleError);
+
+    return () => {
+      audioElement.removeEventListener("loadedmetadata", updateDuration);
+      audioElement.removeEventListener("durationchange", updateDuration);
+      audioElement.removeEventListener("play", handlePlay);
+      audioElement.removeEventListener("pause", handlePause);
+      audioElement.removeEventListener("timeupdate", handleTimeUpdate);
+      audioElement.removeEventListener("seeked", handleTimeUpdate);
+      audioElement.removeEventListener("ended", handleEnded);
+      audioElement.removeEventListener("volumechange", handleVolumeChange);
+      audioElement.removeEventListener("ratechange", handleRateChange);
+      audioElement.removeEventListener("error", handleError);
+    };
+  }, [audioElement]);
+
+  // timeupdate only fires ~4 times per second; poll every frame while playing for a smooth playhead
+  useEffect(() => {
+    if (!audioElement || !isPlaying) return;
+
+    const tick = () => {
+      setCurrentTime(audioElement.currentTime);
+      animationRef.current = requestAnimationFrame(tick);
+    };
+    animationRef.current = requestAnimationFrame(tick);
+
+    return () => {
+      if (animationRef.current) {
+        cancelAnimationFrame(animationRef.current);
+        animationRef.current = null;
+      }
+    };
+  }, [audioElement, isPlaying]);
+
+  const play = useCallback(async () => {
+    if (!audioElement) return;
+    try {
+      if (audioContext?.state === "suspended") {
+        await audioContext.resume();
+      }
+      await audioElement.play();
+    } catch (err) {
+      // Interrupted by pause() or a source change; not an error worth surfacing
+      if (err instanceof DOMException && err.name === "AbortError") return;
+      setError(err instanceof Error ? err : new Error("Failed to play audio"));
+    }
+  }, [audioElement, audioContext]);
+
+  const pause = useCallback(() => {
+    audioElement?.pause();
+  }, [audioElement]);
+
+  const toggle = useCallback(() => {
+    if (!audioElement) return;
+    if (audioElement.paused) {
+      void play();
+    } else {
+      audioElement.pause();
+    }
+  }, [audioElement, play]);
+
+  const seek = useCallback(
+    (time: number) => {
+      const clamped = Math.max(0, duration > 0 ? Math.min(time, duration) : time);
+      if (audioElement) {
+        audioElement.currentTime = clamped;
+      }
+      setCurrentTime(clamped);
+    },
+    [audioElement, duration]
+  );
+
+  const setVolume = useCallback(
+    (value: number) => {
+      const clamped = Math.min(1, Math.max(0, value));
+      if (audioElement) {
+        audioElement.volume = clamped;
+      }
+      setVolumeState(clamped);
+    },
+    [audioElement]
+  );
+
+  const setPlaybackRate = useCallback(
+    (rate: number) => {
+      if (audioElement) {
+        audioElement.playbackRate = rate;
+      }
+      setPlaybackRateState(rate);
+    },
+    [audioElement]
+  );
+
+  return {
+    play,
+    pause,
+    toggle,
+    seek,
+    setVolume,
+    setPlaybackRate,
+    audioElement,
+    sourceNode,
+    blob,
+    src,
+    currentTime,
+    duration,
+    isPlaying,
+    volume,
+    playbackRate,
+    error,
+  };
+};
@@ -0,0 +1,284 @@
+import { forwardRef, useEffect, useImperativeHandle, useRef } from "react";
+import type { AmplitudeScaleOptions, LiveRecorderAppearance, LiveRecorderMode } from "../../types.js";
+import { createAmplitudeScale } from "../../waveform/util-amplitude-scale.js";
+import { createPeakHoldState, getLogFrequencyBars, updatePeakHold } from "./util-spectrum.js";
+
+/**
+ * Drawing options shared by the standalone LiveRecorder and LiveRecorder.Canvas
+ */
+export interface LiveRecorderDrawOptions extends AmplitudeScaleOptions {
+  /**
+   * Waveform appearance configuration (plus spectrum peak caps and oscilloscope line width)
+   */
+  appearance?: LiveRecorderAppearance;
+  /**
+   * What to draw: time-domain bars, log-frequency spectrum bars, or an oscilloscope line
+   * @default "waveform"
+   */
+  mode?: LiveRecorderMode;
+  /**
+   * Show peak-hold caps above spectrum bars
+   * @default true
+   */
+  peakHold?: boolean;
+  /**
+   * How fast peak caps fall after holding, in bar heights per second
+   * @default 0.6
+   */
+  peakDecay?: number;
+  /**
+   * Show minimal bars when not recording (idle state)
+   * @default true
+   */
+  showIdleState?: boolean;
+  /**
+   * Amplitude multiplier - lower values produce quieter waveforms
+   * @default 1.5
+   */
+  amplitudeScale?: number;
+}
+
+interface LiveRecorderCanvasViewProps extends LiveRecorderDrawOptions, React.CanvasHTMLAttributes<HTMLCanvasElement> {
+  mediaRecorder: MediaRecorder | null;
+  /** Analyser to read every frame (a ref, so a new node doesn't restart the loop) */
+  analyserRef: React.RefObject<AnalyserNode | null>;
+}
+
+/**
+ * Canvas that draws the analyser output every frame (and idle bars before recording)
+ */
+export const LiveRecorderCanvasView = forwardRef<HTMLCanvasElement | null, LiveRecorderCanvasViewProps>(
+  function LiveRecorderCanvasView(
+    {
+      mediaRecorder,
+      analyserRef,
+      className = "",
+      appearance,
+      mode = "waveform",
+      peakHold = true,
+      peakDecay = 0.6,
+      showIdleState = true,
+      amplitudeScale = 1.5,
+      normalize,
+      scale,
+      dbFloor,
+      ...props
+    },
+    ref
+  ) {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const animationRef = useRef<number | null>(null);
+
+    useImperativeHandle<HTMLCanvasElement | null, HTMLCanvasElement | null>(ref, () => canvasRef.current, []);
+
+    // Animation loop during recording
+    useEffect(() => {
+      if (!mediaRecorder || !canvasRef.current) {
+        return;
+      }
+
+      const canvas = canvasRef.current;
+
+      // Extract bar style values from appearance
+      const barWidth = appearance?.barWidth ?? 3;
+      const barGap = appearance?.barGap ?? 1;
+      const barRadius = appearance?.barRadius ?? 1.5;
+      const barHeightScale = appearance?.barHeightScale ?? 0.95;
+
+      // barColor: from appearance or CSS currentColor
+      const barColor = appearance?.barColor ?? getComputedStyle(canvas).color ?? "#3b82f6";
+      const peakColor = appearance?.peakColor ?? barColor;
+      const peakHeight = appearance?.peakHeight ?? 2;
+      const lineWidth = appearance?.lineWidth ?? 2;
+
+      const ctx = canvas.getContext("2d");
+      if (!ctx) return;
+
+      const dpr = window.devicePixelRatio || 1;
+      let isPaused = false;
+      // Peak caps restart with each recorder or mode change
+      const peaks = createPeakHoldState();
+      let dataArray = new Uint8Array(0);
+
+      const draw = () => {
+        if (isPaused) {
+          animationRef.current = requestAnimationFrame(draw);
+          return;
+        }
+
+        const analyser = analyserRef.current;
+        if (!analyser || !ctx) return;
+
+        // Sized per analyser (fftSize can change while the loop runs)
+        const bufferLength = analyser.frequencyBinCount;
+        if (dataArray.length !== bufferLength) {
+          dataArray = new Uint8Array(bufferLength);
+        }
+
+        // Get current canvas size
+        const { width, height } = canvas.getBoundingClientRect();
+        canvas.width = width * dpr;
+        canvas.height = height * dpr;
+        ctx.scale(dpr, dpr);
+
+        // Clear canvas
+        ctx.clearRect(0, 0, width, height);
+
+        // Calculate bar count
+        const totalBarWidth = barWidth + barGap;
+        const numBars = Math.floor((width + barGap) / totalBarWidth);
+
+        // Set bar color
+        ctx.fillStyle = barColor;
+
+        if (mode === "spectrum") {
+          // EQ-style bars grow from the bottom; analyser dB range maps to 0-1
+          analyser.getByteFrequencyData(dataArray);
+          const levels = getLogFrequencyBars(dataArray, numBars, analyser.context.sampleRate);
+          updatePeakHold(peaks, levels, performance.now(), peakDecay);
+
+          for (let i = 0; i < numBars; i++) {
+            const barHeight = Math.max(2, levels[i] * height * barHeightScale);
+            ctx.beginPath();
+            ctx.roundRect(i * totalBarWidth, height - barHeight, barWidth, barHeight, barRadius);
+            ctx.fill();
+          }
+
+          if (peakHold) {
+            ctx.fillStyle = peakColor;
+            for (let i = 0; i < numBars; i++) {
+              const peakY = height - peaks.levels[i] * height * barHeightScale - peakHeight;
+              ctx.fillRect(i * totalBarWidth, Math.max(0, peakY), barWidth, peakHeight);
+            }
+          }
+        } else if (mode === "oscilloscope") {
+          // One continuous line through every sample of the current frame
+          analyser.getByteTimeDomainData(dataArray);
+          ctx.strokeStyle = barColor;
+          ctx.lineWidth = lineWidth;
+          ctx.lineJoin = "round";
+          ctx.beginPath();
+          for (let i = 0; i < bufferLength; i++) {
+            const sample = Math.max(-1, Math.min(1, ((dataArray[i] - 128) / 128) * amplitudeScale));
+            const x = bufferLength > 1 ? (i / (bufferLength - 1)) * width : 0;
+            const y = height / 2 - (sample * height * barHeightScale) / 2;
+            if (i === 0) {
+              ctx.moveTo(x, y);
+            } else {
+              ctx.lineTo(x, y);
+            }
+          }
+          ctx.stroke();
+        } else {
+          // Get time domain data (waveform)
+          analyser.getByteTimeDomainData(dataArray);
+
+          // Convert byte values (0-255) to amplitudes, centered at 128 (silence)
+          // amplitudeScale adjusts amplitude (default 1.5, lower = quieter waveform)
+          const amplitudes: number[] = [];
+          for (let i = 0; i < numBars; i++) {
+            const dataIndex = Math.floor((i / numBars) * bufferLength);
+            const value = dataArray[dataIndex] || 0;
+            amplitudes.push(Math.min(1, (Math.abs(value - 128) / 128) * amplitudeScale));
+          }
+          // "per-file" normalizes against the loudest bar of the current frame
+          const loudest = amplitudes.reduce((max, amplitude) => Math.max(max, amplitude), 0);
+          const toHeight = createAmplitudeScale({ normalize, scale, dbFloor }, loudest, "none");
+
+          // Draw bars
+          for (let i = 0; i < numBars; i++) {
+            const barHeight = Math.max(2, toHeight(amplitudes[i]) * height * barHeightScale);
+
+            const x = i * totalBarWidth;
+            const y = (height - barHeight) / 2;
+
+            ctx.beginPath();
+            ctx.roundRect(x, y, barWidth, barHeight, barRadius);
+            ctx.fill();
+          }
+        }
+
+        animationRef.current = requestAnimationFrame(draw);
+      };
+
+      // Pause/resume event handlers
+      const handlePause = () => {
+        isPaused = true;
+      };
+      const handleResume = () => {
+        isPaused = false;
+      };
+
+      mediaRecorder.addEventListener("pause", handlePause);
+      mediaRecorder.addEventListener("resume", handleResume);
+
+      // Start animation after analyser is ready
+      const timeoutId = setTimeout(() => {
+        draw();
+      }, 50);
+
+      return () => {
+        clearTimeout(timeoutId);
+        mediaRecorder.removeEventListener("pause", handlePause);
+        mediaRecorder.removeEventListener("resume", handleResume);
+        if (animationRef.current) {
+          cancelAnimationFrame(animationRef.current);
+          animationRef.current = null;
+        }
+      };
+    }, [mediaRecorder, appearance, mode, peakHold, peakDecay, amplitudeScale, normalize, scale, dbFloor, analyserRef]);
+
+    // Draw idle state (before recording starts)
+    useEffect(() => {
+      if (mediaRecorder || !showIdleState || !canvasRef.current) return;
+
+      const canvas = canvasRef.current;
+      const ctx = canvas.getContext("2d");
+      if (!ctx) return;
+
+      const dpr = window.devicePixelRatio || 1;
+
+      // Extract bar style values from appearance
+      const barWidth = appearance?.barWidth ?? 3;
+      const barGap = appearance?.barGap ?? 1;
+      const barRadius = appearance?.barRadius ?? 1.5;
+      const barColor = appearance?.barColor ?? getComputedStyle(canvas).color ?? "#3b82f6";
+
+      const { width, height } = canvas.getBoundingClientRect();
+      canvas.width = width * dpr;
+      canvas.height = height * dpr;
+      ctx.scale(dpr, dpr);
+
+      ctx.clearRect(0, 0, width, height);
+
+      // Idle oscilloscope: flat center line
+      if (mode === "oscilloscope") {
+        ctx.strokeStyle = barColor;
+        ctx.lineWidth = appearance?.lineWidth ?? 2;
+        ctx.beginPath();
+        ctx.moveTo(0, height / 2);
+        ctx.lineTo(width, height / 2);
+        ctx.stroke();
+        return;
+      }
+
+      // Idle state: draw minimum height bars (resting on the bottom in spectrum mode)
+      ctx.fillStyle = barColor;
+      const minBarHeight = 2;
+      const totalBarWidth = barWidth + barGap;
+      const barCount = Math.floor((width + barGap) / totalBarWidth);
+
+      for (let i = 0; i < barCount; i++) {
+        const x = i * totalBarWidth;
+        const y = mode === "spectrum" ? height - minBarHeight : (height - minBarHeight) / 2;
+        ctx.beginPath();
+        ctx.roundRect(x, y, barWidth, minBarHeight, barRadius);
+        ctx.fill();
+      }
+    }, [mediaRecorder, appearance, showIdleState, mode]);
+
+    return (
+      <canvas ref={canvasRef} className={`text-inherit ${className}`} aria-hidden="true" tabIndex={-1} {...props} />
+    );
+  }
+);
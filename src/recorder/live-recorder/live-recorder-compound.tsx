@@ -0,0 +1,172 @@
+import {
+  type CSSProperties,
+  type ForwardedRef,
+  forwardRef,
+  type HTMLAttributes,
+  type ReactNode,
+  useImperativeHandle,
+  useRef,
+} from "react";
+import { useAudioAnalyser } from "../use-audio-analyser.js";
+import { LiveRecorderCanvasView, type LiveRecorderDrawOptions } from "./live-recorder-canvas.js";
+import { LiveRecorderProvider, useLiveRecorderContext } from "./live-recorder-context.js";
+import type { UseLiveAudioDataOptions } from "./use-live-audio-data.js";
+
+// ============================================================================
+// LiveRecorder (standalone)
+// ============================================================================
+
+export interface LiveRecorderProps extends LiveRecorderDrawOptions, React.CanvasHTMLAttributes<HTMLCanvasElement> {
+  /**
+   * MediaRecorder instance to visualize
+   */
+  mediaRecorder: MediaRecorder | null;
+  /**
+   * FFT size for frequency analysis (must be power of 2)
+   * @default 2048
+   */
+  fftSize?: number;
+  /**
+   * Smoothing time constant for analyser (0-1)
+   * @default 0.8
+   */
+  smoothingTimeConstant?: number;
+}
+
+export interface LiveRecorderRef {
+  /** Get the canvas element */
+  getCanvas: () => HTMLCanvasElement | null;
+  /** Get the audio context */
+  getAudioContext: () => AudioContext | null;
+  /** Get the analyser node */
+  getAnalyser: () => AnalyserNode | null;
+}
+
+/**
+ * Real-time audio visualization component
+ * Analyzes MediaRecorder audio via Web Audio API and renders waveform bars, a spectrum or an oscilloscope
+ */
+const LiveRecorderStandalone = forwardRef<LiveRecorderRef, LiveRecorderProps>(
+  ({ mediaRecorder, fftSize = 2048, smoothingTimeConstant = 0.8, ...props }, ref: ForwardedRef<LiveRecorderRef>) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+
+    const { audioContextRef, analyserRef } = useAudioAnalyser({
+      mediaRecorder,
+      fftSize,
+      smoothingTimeConstant,
+    });
+
+    // Expose internal elements via ref
+    useImperativeHandle(ref, () => ({
+      getCanvas: () => canvasRef.current,
+      getAudioContext: () => audioContextRef.current,
+      getAnalyser: () => analyserRef.current,
+    }));
+
+    return (
+      <LiveRecorderCanvasView ref={canvasRef} mediaRecorder={mediaRecorder} analyserRef={analyserRef} {...props} />
+    );
+  }
+);
+
+LiveRecorderStandalone.displayName = "LiveRecorder";
+
+// ============================================================================
+// LiveRecorder.Root
+// ============================================================================
+
+export interface LiveRecorderRootProps
+  extends UseLiveAudioDataOptions,
+    Omit<HTMLAttributes<HTMLDivElement>, "children"> {
+  children: ReactNode | ((value: ReturnType<typeof useLiveRecorderContext>) => ReactNode);
+}
+
+const LiveRecorderRoot = forwardRef<HTMLDivElement, LiveRecorderRootProps>(function LiveRecorderRoot(
+  { children, mediaRecorder, fftSize, smoothingTimeConstant, barCount, ...props },
+  ref
+) {
+  return (
+    <div ref={ref} {...props}>
+      <LiveRecorderProvider
+        mediaRecorder={mediaRecorder}
+        fftSize={fftSize}
+        smoothingTimeConstant={smoothingTimeConstant}
+        barCount={barCount}
+      >
+        {children}
+      </LiveRecorderProvider>
+    </div>
+  );
+});
+
+// ============================================================================
+// LiveRecorder.Canvas
+// ============================================================================
+
+export interface LiveRecorderCanvasProps
+  extends LiveRecorderDrawOptions,
+    React.CanvasHTMLAttributes<HTMLCanvasElement> {}
+
+/**
+ * Canvas visualizer fed by the Root's analyser (same modes and appearance as the standalone LiveRecorder)
+ */
+const LiveRecorderCanvas = forwardRef<HTMLCanvasElement | null, LiveRecorderCanvasProps>(
+  function LiveRecorderCanvas(props, ref) {
+    const { mediaRecorder, analyser } = useLiveRecorderContext();
+    // Latest analyser without restarting the draw loop on every context update
+    const analyserRef = useRef(analyser);
+    analyserRef.current = analyser;
+
+    return <LiveRecorderCanvasView ref={ref} mediaRecorder={mediaRecorder} analyserRef={analyserRef} {...props} />;
+  }
+);
+
+// ============================================================================
+// LiveRecorder.Bars
+// ============================================================================
+
+export interface LiveRecorderBarsProps extends Omit<HTMLAttributes<HTMLDivElement>, "children"> {
+  /** className for each bar element */
+  barClassName?: string;
+  /** Inline styles for each bar element (height is set from the level) */
+  barStyle?: CSSProperties;
+  /** Smallest bar height in percent, so silent bars stay visible. Default: 2 */
+  minBarHeight?: number;
+}
+
+/**
+ * DOM bars (one per `barCount`) sized from the Root's levels; style them with CSS or Tailwind
+ */
+const LiveRecorderBars = forwardRef<HTMLDivElement, LiveRecorderBarsProps>(function LiveRecorderBars(
+  { barClassName, barStyle, minBarHeight = 2, style, ...props },
+  ref
+) {
+  const { frequencies } = useLiveRecorderContext();
+
+  return (
+    <div ref={ref} aria-hidden="true" style={{ display: "flex", alignItems: "center", ...style }} {...props}>
+      {frequencies.map((level, index) => (
+        <div
+          // biome-ignore lint/suspicious/noArrayIndexKey: bars are positional
+          key={index}
+          className={barClassName}
+          style={{ ...barStyle, height: `${Math.max(minBarHeight, level)}%` }}
+        />
+      ))}
+    </div>
+  );
+});
+
+// ============================================================================
+// Compound Component Composition
+// ============================================================================
+
+/**
+ * Standalone visualizer (`<LiveRecorder mediaRecorder={...} />`) with compound parts for custom layouts:
+ * `LiveRecorder.Root` provides the analyser data, `LiveRecorder.Canvas` and `LiveRecorder.Bars` render it
+ */
+export const LiveRecorder = Object.assign(LiveRecorderStandalone, {
+  Root: LiveRecorderRoot,
+  Canvas: LiveRecorderCanvas,
+  Bars: LiveRecorderBars,
+});
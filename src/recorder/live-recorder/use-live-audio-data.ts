@@ -25,6 +25,8 @@ export interface UseLiveAudioDataReturn {
   isRecording: boolean;
   /** Whether recording is paused */
   isPaused: boolean;
+  /** MediaRecorder being visualized */
+  mediaRecorder: MediaRecorder | null;
 }
 
 /**
@@ -143,5 +145,6 @@ export function useLiveAudioData(options: UseLiveAudioDataOptions): UseLiveAudio
     analyser: analyserRef.current,
     isRecording: mediaRecorder?.state === "recording",
     isPaused: mediaRecorder?.state === "paused",
+    mediaRecorder,
   };
 }
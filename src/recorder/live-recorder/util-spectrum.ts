@@ -0,0 +1,75 @@
+// ============================================================================
+// Spectrum Analyzer Helpers
+// Log-frequency bar binning and peak-hold caps for LiveRecorder's spectrum mode
+// ============================================================================
+
+// Lowest frequency shown by spectrum bars (below the range of most microphones)
+const SPECTRUM_MIN_FREQUENCY = 20;
+
+// How long a peak cap stays put before it starts to fall (ms)
+export const PEAK_HOLD_TIME = 500;
+
+/**
+ * Group analyser frequency bins (`getByteFrequencyData`) into log-spaced bars
+ * Each bar takes the loudest bin in its band; low bands narrower than a bin use the nearest bin
+ * Returns levels in 0-1 range
+ */
+export function getLogFrequencyBars(data: ArrayLike<number>, barCount: number, sampleRate: number): number[] {
+  const binCount = data.length;
+  const nyquist = sampleRate / 2;
+  const binWidth = nyquist / binCount;
+  const ratio = nyquist / SPECTRUM_MIN_FREQUENCY;
+  const bars: number[] = [];
+
+  for (let bar = 0; bar < barCount; bar++) {
+    const low = SPECTRUM_MIN_FREQUENCY * ratio ** (bar / barCount);
+    const high = SPECTRUM_MIN_FREQUENCY * ratio ** ((bar + 1) / barCount);
+    const first = Math.min(binCount - 1, Math.floor(low / binWidth));
+    const last = Math.min(binCount - 1, Math.max(first, Math.ceil(high / binWidth) - 1));
+
+    let level = 0;
+    for (let bin = first; bin <= last; bin++) {
+      level = Math.max(level, data[bin] ?? 0);
+    }
+    bars.push(level / 255);
+  }
+
+  return bars;
+}
+
+/**
+ * Peak cap per bar, when it was last pushed up, and the time of the last update
+ */
+export interface PeakHoldState {
+  levels: number[];
+  heldAt: number[];
+  updatedAt: number;
+}
+
+export function createPeakHoldState(): PeakHoldState {
+  return { levels: [], heldAt: [], updatedAt: 0 };
+}
+
+/**
+ * Raise caps to new bar levels; caps not raised for PEAK_HOLD_TIME fall at `decay` (levels per second)
+ * Mutates `state` (called every animation frame)
+ */
+export function updatePeakHold(state: PeakHoldState, values: number[], now: number, decay: number): void {
+  const elapsed = state.updatedAt > 0 ? (now - state.updatedAt) / 1000 : 0;
+  state.updatedAt = now;
+  // Bar count follows the canvas width
+  state.levels.length = values.length;
+  state.heldAt.length = values.length;
+
+  for (let i = 0; i < values.length; i++) {
+    const level = state.levels[i] ?? 0;
+    if (values[i] >= level) {
+      state.levels[i] = values[i];
+      state.heldAt[i] = now;
+    } else if (now - (state.heldAt[i] ?? 0) > PEAK_HOLD_TIME) {
+      state.levels[i] = Math.max(values[i], level - decay * elapsed);
+    } else {
+      state.levels[i] = level;
+    }
+  }
+}
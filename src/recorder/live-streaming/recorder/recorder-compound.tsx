@@ -1,7 +1,13 @@
 import { useOverlayScrollbars } from "overlayscrollbars-react";
 import { forwardRef, type HTMLAttributes, type ReactNode, useCallback, useEffect, useId, useRef } from "react";
-import { DEFAULT_SCROLLBAR_APPEARANCE, DEFAULT_WAVEFORM_APPEARANCE } from "../../../constants";
-import type { LiveStreamingRecorderAppearance } from "../../../types";
+import {
+  DEFAULT_SCROLLBAR_APPEARANCE,
+  DEFAULT_TIMELINE_APPEARANCE,
+  DEFAULT_WAVEFORM_APPEARANCE,
+} from "../../../constants";
+import type { AmplitudeScaleOptions, LiveStreamingRecorderAppearance } from "../../../types";
+import { createAmplitudeScale } from "../../../waveform/util-amplitude-scale";
+import { drawTimeline } from "../../../waveform/util-timeline";
 import type { UseRecordingAmplitudesOptions } from "../use-recording-amplitudes";
 import { LiveStreamingRecorderProvider, useLiveStreamingRecorderContext } from "./recorder-context";
 
@@ -137,18 +143,23 @@ const LiveStreamingRecorderRoot = forwardRef<HTMLDivElement, LiveStreamingRecord
 // LiveStreamingRecorder.Canvas
 // ============================================================================
 
-export interface LiveStreamingRecorderCanvasProps extends HTMLAttributes<HTMLCanvasElement> {
+export interface LiveStreamingRecorderCanvasProps extends AmplitudeScaleOptions, HTMLAttributes<HTMLCanvasElement> {
   /** Additional className for canvas element */
   className?: string;
   /** Inline styles for canvas element */
   style?: React.CSSProperties;
   /** Waveform appearance configuration (barColor, barWidth, etc.) - scrollbar settings only apply in Root */
   appearance?: LiveStreamingRecorderAppearance;
+  /** Draw a time ruler along the bottom edge that grows and scrolls with the recording. Default: false */
+  showTimeline?: boolean;
 }
 
 const LiveStreamingRecorderCanvas = forwardRef<HTMLCanvasElement, LiveStreamingRecorderCanvasProps>(
-  function LiveStreamingRecorderCanvas({ className = "", style, appearance, ...props }, ref) {
-    const { amplitudes, isRecording, isPaused } = useLiveStreamingRecorderContext();
+  function LiveStreamingRecorderCanvas(
+    { className = "", style, appearance, normalize, scale, dbFloor, showTimeline = false, ...props },
+    ref
+  ) {
+    const { amplitudes, isRecording, isPaused, sampleInterval } = useLiveStreamingRecorderContext();
 
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const animationRef = useRef<number | null>(null);
@@ -220,12 +231,16 @@ const LiveStreamingRecorderCanvas = forwardRef<HTMLCanvasElement, LiveStreamingR
         // Set bar color
         ctx.fillStyle = barColor;
 
+        // "per-file" normalizes against the loudest sample of the recording so far
+        const loudest = amplitudes.reduce((max, amplitude) => Math.max(max, amplitude), 0);
+        const toHeight = createAmplitudeScale({ normalize, scale, dbFloor }, loudest, "none");
+
         // Draw bars - 1:1 mapping (one bar per amplitude sample)
         const minBarHeight = 2;
         ctx.beginPath();
 
         for (let i = 0; i < amplitudes.length; i++) {
-          const amplitude = amplitudes[i];
+          const amplitude = toHeight(amplitudes[i]);
           const barHeight = Math.max(minBarHeight, amplitude * containerHeight * barHeightScale);
 
           const x = i * totalBarWidth;
@@ -235,9 +250,23 @@ const LiveStreamingRecorderCanvas = forwardRef<HTMLCanvasElement, LiveStreamingR
         }
 
         ctx.fill();
+
+        // Timeline spans the whole canvas: each bar is one sample, so bars map to seconds via sampleInterval
+        if (showTimeline) {
+          const pixelsPerSecond = (totalBarWidth * 1000) / sampleInterval;
+          drawTimeline(ctx, {
+            pixelsPerSecond,
+            offset: 0,
+            width: canvasWidth,
+            height: containerHeight,
+            duration: canvasWidth / pixelsPerSecond,
+            color: appearance?.timelineColor ?? DEFAULT_TIMELINE_APPEARANCE.timelineColor,
+            font: appearance?.timelineFont ?? DEFAULT_TIMELINE_APPEARANCE.timelineFont,
+          });
+        }
       }
       // Don't draw anything if not recording and no data
-    }, [amplitudes, isRecording, appearance]);
+    }, [amplitudes, isRecording, appearance, normalize, scale, dbFloor, showTimeline, sampleInterval]);
 
     // Track container size with ResizeObserver and get OverlayScrollbars viewport reference
     useEffect(() => {
@@ -1,6 +1,7 @@
 import { forwardRef, useCallback, useEffect, useRef } from "react";
 import { DEFAULT_WAVEFORM_APPEARANCE } from "../../../constants";
-import type { WaveformAppearance } from "../../../types";
+import type { AmplitudeScaleOptions, WaveformAppearance } from "../../../types";
+import { createAmplitudeScale } from "../../../waveform/util-amplitude-scale";
 import { type UseRecordingAmplitudesOptions, useRecordingAmplitudes } from "../use-recording-amplitudes";
 
 // ============================================================================
@@ -9,6 +10,7 @@ import { type UseRecordingAmplitudesOptions, useRecordingAmplitudes } from "../u
 
 export interface LiveStreamingStackRecorderProps
   extends UseRecordingAmplitudesOptions,
+    AmplitudeScaleOptions,
     Omit<React.CanvasHTMLAttributes<HTMLCanvasElement>, "children"> {
   /** Waveform appearance configuration (barColor, barWidth, etc.) */
   appearance?: WaveformAppearance;
@@ -16,7 +18,19 @@ export interface LiveStreamingStackRecorderProps
 
 export const LiveStreamingStackRecorder = forwardRef<HTMLCanvasElement, LiveStreamingStackRecorderProps>(
   function LiveStreamingStackRecorder(
-    { mediaRecorder, fftSize, smoothingTimeConstant, sampleInterval, appearance, className = "", style, ...props },
+    {
+      mediaRecorder,
+      fftSize,
+      smoothingTimeConstant,
+      sampleInterval,
+      appearance,
+      normalize,
+      scale,
+      dbFloor,
+      className = "",
+      style,
+      ...props
+    },
     ref
   ) {
     const { amplitudes, isRecording, isPaused } = useRecordingAmplitudes({
@@ -89,6 +103,10 @@ export const LiveStreamingStackRecorder = forwardRef<HTMLCanvasElement, LiveStre
         const barsCount = Math.min(amplitudes.length, maxBarsCount);
         const needsDownsample = amplitudes.length > maxBarsCount;
 
+        // "per-file" normalizes against the loudest sample of the recording so far
+        const loudest = amplitudes.reduce((max, amplitude) => Math.max(max, amplitude), 0);
+        const toHeight = createAmplitudeScale({ normalize, scale, dbFloor }, loudest, "none");
+
         ctx.beginPath();
         for (let i = 0; i < barsCount; i++) {
           let amplitude: number;
@@ -108,7 +126,7 @@ export const LiveStreamingStackRecorder = forwardRef<HTMLCanvasElement, LiveStre
             amplitude = amplitudes[i] || 0;
           }
 
-          const barHeight = Math.max(minBarHeight, amplitude * containerHeight * barHeightScale);
+          const barHeight = Math.max(minBarHeight, toHeight(amplitude) * containerHeight * barHeightScale);
 
           // Pixel snapping: prevent flickering from subpixel rendering
           // Align to integer coordinates with Math.round to minimize antialiasing artifacts
@@ -121,7 +139,7 @@ export const LiveStreamingStackRecorder = forwardRef<HTMLCanvasElement, LiveStre
         ctx.fill();
       }
       // Don't draw anything if not recording and no data
-    }, [amplitudes, isRecording, appearance]);
+    }, [amplitudes, isRecording, appearance, normalize, scale, dbFloor]);
 
     // Track container size with ResizeObserver (cache size to prevent per-frame reflow)
     // Canvas size is set here only to prevent flickering from per-frame resizing
@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useState } from "react";
+
+export interface AudioInputDevice {
+  /** Pass to useAudioRecorder's `deviceId` */
+  deviceId: string;
+  /** Physical device group (input and output of the same headset share it) */
+  groupId: string;
+  /** Device label, or "Microphone N" while the browser hides labels (before microphone permission) */
+  label: string;
+}
+
+export interface UseAudioInputDevicesReturn {
+  /** Available microphones, in browser order */
+  devices: AudioInputDevice[];
+  /** Whether the browser exposes real device labels (only after microphone permission) */
+  hasLabels: boolean;
+  /** Re-enumerate devices (e.g. after permission was granted, which doesn't fire `devicechange`) */
+  refresh: () => Promise<void>;
+  /** Any error from enumerating devices */
+  error: Error | null;
+}
+
+/**
+ * Headless hook listing microphones for device selection
+ * Updates when devices are plugged in or removed (`devicechange`)
+ *
+ * @example
+ * ```tsx
+ * const { devices } = useAudioInputDevices();
+ * const [deviceId, setDeviceId] = useState<string>();
+ * const recorder = useAudioRecorder({ deviceId });
+ *
+ * <select value={deviceId} onChange={(e) => setDeviceId(e.target.value)}>
+ *   {devices.map((device) => (
+ *     <option key={device.deviceId} value={device.deviceId}>{device.label}</option>
+ *   ))}
+ * </select>
+ * ```
+ */
+export function useAudioInputDevices(): UseAudioInputDevicesReturn {
+  const [devices, setDevices] = useState<AudioInputDevice[]>([]);
+  const [hasLabels, setHasLabels] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const refresh = useCallback(async () => {
+    // SSR safe / insecure context: mediaDevices is unavailable
+    if (typeof navigator === "undefined" || !navigator.mediaDevices?.enumerateDevices) return;
+
+    try {
+      const inputs = (await navigator.mediaDevices.enumerateDevices()).filter((device) => device.kind === "audioinput");
+      setDevices(
+        inputs.map((device, index) => ({
+          deviceId: device.deviceId,
+          groupId: device.groupId,
+          label: device.label || `Microphone ${index + 1}`,
+        }))
+      );
+      setHasLabels(inputs.some((device) => device.label !== ""));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error(String(err)));
+    }
+  }, []);
+
+  useEffect(() => {
+    const mediaDevices = typeof navigator === "undefined" ? undefined : navigator.mediaDevices;
+    if (!mediaDevices) return;
+
+    refresh();
+    mediaDevices.addEventListener("devicechange", refresh);
+    return () => {
+      mediaDevices.removeEventListener("devicechange", refresh);
+    };
+  }, [refresh]);
+
+  return { devices, hasLabels, refresh, error };
+}
@@ -1,7 +1,30 @@
 import { useCallback, useEffect, useRef, useState } from "react";
+import { encodeWav, resampleChannel } from "../waveform/util-wav-encoder";
 import { getDefaultMimeType } from "./util-mime-type";
+import { type PcmCapture, startPcmCapture } from "./util-pcm-capture";
+import { PcmRecorder } from "./util-pcm-recorder";
+import { createRecorderError, type RecorderError, toRecorderError } from "./util-recorder-error";
+import { type SwitchableInput, startSwitchableInput } from "./util-switchable-input";
 
 export interface UseAudioRecorderConfig {
+  /**
+   * Output format of recordingBlob
+   * - "native": Whatever MediaRecorder produces for `mimeType` (webm/opus, mp4, ...)
+   * - "wav": 16-bit PCM WAV captured from raw samples via AudioWorklet (`mimeType` is ignored,
+   *   no MediaRecorder encodes; `mediaRecorder` is a stand-in with the same stream, state and events)
+   * @default "native"
+   */
+  outputFormat?: "native" | "wav";
+  /**
+   * Sample rate of the WAV output in Hz (only used when outputFormat is "wav")
+   * @default AudioContext sample rate (usually 44100 or 48000)
+   */
+  sampleRate?: number;
+  /**
+   * Number of channels in the WAV output (only used when outputFormat is "wav")
+   * @default 1
+   */
+  channelCount?: number;
   /**
    * MIME type for the recording
    * - string: Directly specify MIME type (e.g., 'audio/webm', 'audio/mp4')
@@ -15,12 +38,37 @@ export interface UseAudioRecorderConfig {
    * @default true
    */
   audioConstraints?: MediaTrackConstraints | boolean;
+  /**
+   * Microphone to record from (see useAudioInputDevices)
+   * Changing it while recording switches the input without restarting the recording
+   * @default undefined - Browser default input
+   */
+  deviceId?: string;
   /**
    * Callback when recording is complete
    */
   onRecordingComplete?: (blob: Blob) => void;
+  /**
+   * Stop the recording automatically after this many seconds (excluding paused time)
+   * @default undefined - No limit
+   */
+  maxDuration?: number;
+  /**
+   * Callback when the recording was stopped by `maxDuration` (before onRecordingComplete)
+   */
+  onMaxDurationReached?: () => void;
+  /**
+   * Callback when starting, recording or switching devices fails (also set as `error`)
+   */
+  onError?: (error: RecorderError) => void;
 }
 
+/**
+ * Microphone permission from the Permissions API
+ * "unknown" where the API (or its "microphone" name) isn't supported, until getUserMedia settles it
+ */
+export type RecorderPermissionState = "granted" | "denied" | "prompt" | "unknown";
+
 export interface UseAudioRecorderReturn {
   /** Start recording from the microphone */
   startRecording: () => Promise<void>;
@@ -32,18 +80,57 @@ export interface UseAudioRecorderReturn {
   resumeRecording: () => void;
   /** Clear the recording and reset state */
   clearRecording: () => void;
-  /** The MediaRecorder instance (for visualization) */
+  /**
+   * The MediaRecorder instance (for visualization)
+   * With outputFormat "wav", an encoder-less stand-in exposing `stream`, `state` and pause/resume events
+   */
   mediaRecorder: MediaRecorder | null;
   /** The recorded audio as a Blob (available after stopRecording) */
   recordingBlob: Blob | null;
-  /** Recording duration in seconds */
+  /** Recording duration in whole seconds (paused time excluded) */
   recordingTime: number;
+  /** Recording duration in milliseconds (paused time excluded, updated every 100ms while recording) */
+  recordingTimeMs: number;
   /** Whether currently recording */
   isRecording: boolean;
   /** Whether recording is paused */
   isPaused: boolean;
-  /** Any error that occurred */
-  error: Error | null;
+  /** Microphone permission (updates when the user changes it in browser settings) */
+  permissionState: RecorderPermissionState;
+  /** Any error that occurred (narrow on `error.code`) */
+  error: RecorderError | null;
+}
+
+// Refresh rate of recordingTimeMs while recording (the value itself comes from timestamps)
+const TIMER_INTERVAL = 100;
+
+/**
+ * Timestamp-based recording clock: time of finished spans plus the running span since `startedAt`
+ * Avoids the drift of counting interval ticks and keeps partial seconds across pause/resume
+ */
+interface RecordingClock {
+  elapsed: number;
+  startedAt: number | null;
+}
+
+function readClock(clock: RecordingClock): number {
+  return clock.elapsed + (clock.startedAt === null ? 0 : performance.now() - clock.startedAt);
+}
+
+function pauseClock(clock: RecordingClock): void {
+  clock.elapsed = readClock(clock);
+  clock.startedAt = null;
+}
+
+/**
+ * Merge the selected device into the getUserMedia audio constraints
+ */
+function resolveAudioConstraints(
+  audioConstraints: MediaTrackConstraints | boolean,
+  deviceId: string | undefined
+): MediaTrackConstraints | boolean {
+  if (!deviceId) return audioConstraints;
+  return { ...(typeof audioConstraints === "object" ? audioConstraints : {}), deviceId: { exact: deviceId } };
 }
 
 /**
@@ -51,22 +138,42 @@ export interface UseAudioRecorderReturn {
  * Based on react-audio-visualize patterns
  */
 export const useAudioRecorder = (config: UseAudioRecorderConfig = {}): UseAudioRecorderReturn => {
-  const { mimeType, audioConstraints = true, onRecordingComplete } = config;
+  const {
+    outputFormat = "native",
+    sampleRate,
+    channelCount = 1,
+    mimeType,
+    audioConstraints = true,
+    deviceId,
+    maxDuration,
+    onRecordingComplete,
+    onMaxDurationReached,
+    onError,
+  } = config;
 
   // Handle mimeType: execute if function, use as-is if string, use default if undefined
+  // (WAV output encodes samples itself, so MIME selection is skipped entirely)
   const resolvedMimeType =
-    typeof mimeType === "function" ? mimeType() : mimeType !== undefined ? mimeType : getDefaultMimeType();
+    outputFormat === "wav"
+      ? undefined
+      : typeof mimeType === "function"
+        ? mimeType()
+        : mimeType !== undefined
+          ? mimeType
+          : getDefaultMimeType();
 
   const [mediaRecorder, setMediaRecorder] = useState<MediaRecorder | null>(null);
   const [recordingBlob, setRecordingBlob] = useState<Blob | null>(null);
-  const [recordingTime, setRecordingTime] = useState(0);
+  const [recordingTimeMs, setRecordingTimeMs] = useState(0);
   const [isRecording, setIsRecording] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
-  const [error, setError] = useState<Error | null>(null);
+  const [permissionState, setPermissionState] = useState<RecorderPermissionState>("unknown");
+  const [error, setError] = useState<RecorderError | null>(null);
 
   const audioChunksRef = useRef<Blob[]>([]);
-  const timerRef = useRef<number | null>(null);
-  const streamRef = useRef<MediaStream | null>(null);
+  const clockRef = useRef<RecordingClock>({ elapsed: 0, startedAt: null });
+  const inputRef = useRef<SwitchableInput | null>(null);
+  const pcmCaptureRef = useRef<PcmCapture | null>(null);
 
   // useCallback ref for stability (latest state value tracking)
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
@@ -80,86 +187,234 @@ export const useAudioRecorder = (config: UseAudioRecorderConfig = {}): UseAudioR
     isPausedRef.current = isPaused;
   }, [mediaRecorder, isRecording, isPaused]);
 
-  // Timer for recording duration
+  // Latest onError without re-creating callbacks (also used by the device switch effect)
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  const reportError = useCallback((error: RecorderError) => {
+    setError(error);
+    onErrorRef.current?.(error);
+  }, []);
+
+  // Track microphone permission via the Permissions API where available
   useEffect(() => {
-    if (isRecording && !isPaused) {
-      timerRef.current = window.setInterval(() => {
-        setRecordingTime((prev) => prev + 1);
-      }, 1000);
-    } else if (timerRef.current) {
-      clearInterval(timerRef.current);
-      timerRef.current = null;
-    }
+    if (typeof navigator === "undefined" || !navigator.permissions?.query) return;
+
+    let status: PermissionStatus | null = null;
+    let cancelled = false;
+    const handleChange = () => {
+      if (status) setPermissionState(status.state);
+    };
+
+    navigator.permissions
+      // "microphone" isn't in every browser's PermissionName list (query rejects there)
+      .query({ name: "microphone" as PermissionName })
+      .then((result) => {
+        if (cancelled) return;
+        status = result;
+        handleChange();
+        result.addEventListener("change", handleChange);
+      })
+      .catch(() => {});
 
     return () => {
-      if (timerRef.current) {
-        clearInterval(timerRef.current);
-      }
+      cancelled = true;
+      status?.removeEventListener("change", handleChange);
     };
-  }, [isRecording, isPaused]);
+  }, []);
 
   const startRecording = useCallback(async () => {
     try {
       setError(null);
       audioChunksRef.current = [];
       setRecordingBlob(null);
-      setRecordingTime(0);
+      clockRef.current = { elapsed: 0, startedAt: null };
+      setRecordingTimeMs(0);
+
+      // mediaDevices is undefined outside secure contexts, MediaRecorder in old browsers
+      if (typeof navigator === "undefined" || !navigator.mediaDevices?.getUserMedia) {
+        throw typeof window !== "undefined" && window.isSecureContext === false
+          ? createRecorderError({ code: "insecure-context" }, "Microphone access requires a secure context (HTTPS)")
+          : createRecorderError({ code: "unsupported" }, "getUserMedia is not supported in this browser");
+      }
+      if (outputFormat !== "wav" && typeof MediaRecorder === "undefined") {
+        throw createRecorderError({ code: "unsupported" }, "MediaRecorder is not supported in this browser");
+      }
 
       // Request microphone access
-      const stream = await navigator.mediaDevices.getUserMedia({
-        audio: audioConstraints,
-      });
-      streamRef.current = stream;
+      let micStream: MediaStream;
+      try {
+        micStream = await navigator.mediaDevices.getUserMedia({
+          audio: resolveAudioConstraints(audioConstraints, deviceId),
+        });
+      } catch (err) {
+        const recorderError = toRecorderError(err, deviceId);
+        if (recorderError.code === "permission-denied") setPermissionState("denied");
+        throw recorderError;
+      }
+      setPermissionState("granted");
+      // Record from a stable stream so the microphone can be switched mid-recording
+      const input = await startSwitchableInput(micStream);
+      inputRef.current = input;
+      const stream = input.stream;
 
-      // Create MediaRecorder with browser-compatible MIME type
-      const recorder = new MediaRecorder(stream, {
-        mimeType: MediaRecorder.isTypeSupported(resolvedMimeType) ? resolvedMimeType : getDefaultMimeType(),
-      });
+      // WAV mode: capture raw samples via AudioWorklet
+      const pcmCapture =
+        outputFormat === "wav"
+          ? await startPcmCapture(stream, { channelCount }).catch((err) => {
+              throw createRecorderError(
+                { code: "unsupported" },
+                err instanceof Error ? err.message : "WAV capture is not supported in this browser",
+                err
+              );
+            })
+          : null;
+      pcmCaptureRef.current = pcmCapture;
 
-      recorder.ondataavailable = (event) => {
-        if (event.data.size > 0) {
-          audioChunksRef.current.push(event.data);
+      // WAV mode gets an encoder-less stand-in with the same stream, state and pause/resume events for the visualizers
+      // Native mode: MediaRecorder with browser-compatible MIME type
+      let recorder: MediaRecorder;
+      if (pcmCapture) {
+        recorder = new PcmRecorder(stream) as unknown as MediaRecorder;
+      } else {
+        const recorderMimeType =
+          resolvedMimeType &&
+          (MediaRecorder.isTypeSupported(resolvedMimeType) ? resolvedMimeType : getDefaultMimeType());
+        try {
+          recorder = recorderMimeType
+            ? new MediaRecorder(stream, { mimeType: recorderMimeType })
+            : new MediaRecorder(stream);
+        } catch (err) {
+          throw recorderMimeType && (err as { name?: string } | null)?.name === "NotSupportedError"
+            ? createRecorderError(
+                { code: "unsupported-mime-type", mimeType: recorderMimeType },
+                `MediaRecorder does not support "${recorderMimeType}"`,
+                err
+              )
+            : err;
         }
-      };
+      }
 
-      recorder.onstop = () => {
-        // Create final blob from chunks
-        const blob = new Blob(audioChunksRef.current, { type: recorder.mimeType });
+      if (!pcmCapture) {
+        recorder.ondataavailable = (event) => {
+          if (event.data.size > 0) {
+            audioChunksRef.current.push(event.data);
+          }
+        };
+      }
+
+      const completeRecording = (blob: Blob) => {
         setRecordingBlob(blob);
         onRecordingComplete?.(blob);
+      };
+
+      recorder.onstop = () => {
+        if (pcmCapture) {
+          // Encode captured samples as 16-bit PCM WAV (resampled to the requested rate)
+          pcmCaptureRef.current = null;
+          pcmCapture
+            .stop()
+            .then(({ channelData, sampleRate: captureRate }) => {
+              const targetRate = sampleRate ?? captureRate;
+              const resampled = channelData.map((channel) => resampleChannel(channel, captureRate, targetRate));
+              completeRecording(encodeWav(resampled, targetRate));
+            })
+            .catch((err) => {
+              reportError(createRecorderError({ code: "recording-failed" }, "Failed to encode the WAV recording", err));
+            });
+        } else {
+          // Create final blob from chunks
+          completeRecording(new Blob(audioChunksRef.current, { type: recorder.mimeType }));
+        }
+        pauseClock(clockRef.current);
+        setRecordingTimeMs(clockRef.current.elapsed);
         setIsRecording(false);
         setIsPaused(false);
         setMediaRecorder(null);
 
         // Clean up stream
-        if (streamRef.current) {
-          for (const track of streamRef.current.getTracks()) {
-            track.stop();
-          }
-          streamRef.current = null;
-        }
+        inputRef.current?.stop();
+        inputRef.current = null;
       };
 
       recorder.onerror = (event) => {
-        setError(new Error(`Recording error: ${event}`));
+        // MediaRecorderErrorEvent carries the DOMException in `error` (not in every browser's typings)
+        const cause = (event as Event & { error?: { name?: string; message?: string } }).error;
+        const reason = cause?.message || cause?.name;
+        reportError(
+          createRecorderError(
+            { code: "recording-failed" },
+            reason ? `Recording failed: ${reason}` : "Recording failed",
+            cause ?? event
+          )
+        );
         setIsRecording(false);
         setIsPaused(false);
       };
 
       setMediaRecorder(recorder);
       recorder.start(100); // Collect data every 100ms for smooth visualization
+      clockRef.current.startedAt = performance.now();
       setIsRecording(true);
       setIsPaused(false);
     } catch (err) {
-      const error = err instanceof Error ? err : new Error(String(err));
-      setError(error);
-      console.error("Failed to start recording:", error);
+      reportError(toRecorderError(err, deviceId));
+
+      // Release microphone and capture graph if setup failed midway
+      pcmCaptureRef.current?.stop().catch(() => {});
+      pcmCaptureRef.current = null;
+      inputRef.current?.stop();
+      inputRef.current = null;
     }
-  }, [resolvedMimeType, audioConstraints, onRecordingComplete]);
+  }, [
+    outputFormat,
+    sampleRate,
+    channelCount,
+    resolvedMimeType,
+    audioConstraints,
+    deviceId,
+    onRecordingComplete,
+    reportError,
+  ]);
+
+  // Switch microphones mid-recording (the MediaRecorder, its chunks and amplitude history stay intact)
+  const activeDeviceIdRef = useRef(deviceId);
+  const audioConstraintsRef = useRef(audioConstraints);
+  audioConstraintsRef.current = audioConstraints;
+  useEffect(() => {
+    if (deviceId === activeDeviceIdRef.current) return;
+    activeDeviceIdRef.current = deviceId;
+    if (!inputRef.current) return;
+
+    let cancelled = false;
+    navigator.mediaDevices
+      .getUserMedia({ audio: resolveAudioConstraints(audioConstraintsRef.current, deviceId) })
+      .then((micStream) => {
+        // Recording stopped or the device changed again while the new microphone was opening
+        if (cancelled || !inputRef.current) {
+          for (const track of micStream.getTracks()) {
+            track.stop();
+          }
+          return;
+        }
+        inputRef.current.replaceInput(micStream);
+      })
+      .catch((err) => {
+        // Keep recording from the previous microphone
+        if (!cancelled) reportError(toRecorderError(err, deviceId));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [deviceId, reportError]);
 
   const stopRecording = useCallback(() => {
     // Use ref to reference latest values (Stabilize dependency array)
     if (mediaRecorderRef.current && isRecordingRef.current) {
+      // Freeze the clock now, onstop fires after the last chunk is flushed
+      pauseClock(clockRef.current);
+      setRecordingTimeMs(clockRef.current.elapsed);
       mediaRecorderRef.current.stop();
     }
   }, []);
@@ -168,6 +423,9 @@ export const useAudioRecorder = (config: UseAudioRecorderConfig = {}): UseAudioR
     // Use ref to reference latest values (Stabilize dependency array)
     if (mediaRecorderRef.current && isRecordingRef.current && !isPausedRef.current) {
       mediaRecorderRef.current.pause();
+      pcmCaptureRef.current?.pause();
+      pauseClock(clockRef.current);
+      setRecordingTimeMs(clockRef.current.elapsed);
       setIsPaused(true);
     }
   }, []);
@@ -176,10 +434,38 @@ export const useAudioRecorder = (config: UseAudioRecorderConfig = {}): UseAudioR
     // Use ref to reference latest values (Stabilize dependency array)
     if (mediaRecorderRef.current && isRecordingRef.current && isPausedRef.current) {
       mediaRecorderRef.current.resume();
+      pcmCaptureRef.current?.resume();
+      clockRef.current.startedAt = performance.now();
       setIsPaused(false);
     }
   }, []);
 
+  // Refresh recordingTimeMs while running and auto-stop at maxDuration
+  const onMaxDurationReachedRef = useRef(onMaxDurationReached);
+  onMaxDurationReachedRef.current = onMaxDurationReached;
+  useEffect(() => {
+    if (!isRecording || isPaused) return;
+
+    const intervalId = window.setInterval(() => {
+      setRecordingTimeMs(readClock(clockRef.current));
+    }, TIMER_INTERVAL);
+
+    // Timeout for the remaining time (re-armed on resume) so the stop doesn't wait for the next tick
+    let timeoutId: number | null = null;
+    if (maxDuration !== undefined && maxDuration > 0) {
+      const remaining = Math.max(0, maxDuration * 1000 - readClock(clockRef.current));
+      timeoutId = window.setTimeout(() => {
+        stopRecording();
+        onMaxDurationReachedRef.current?.();
+      }, remaining);
+    }
+
+    return () => {
+      clearInterval(intervalId);
+      if (timeoutId !== null) clearTimeout(timeoutId);
+    };
+  }, [isRecording, isPaused, maxDuration, stopRecording]);
+
   const clearRecording = useCallback(() => {
     // Use ref to reference latest values (Stabilize dependency array)
     if (mediaRecorderRef.current && isRecordingRef.current) {
@@ -187,7 +473,8 @@ export const useAudioRecorder = (config: UseAudioRecorderConfig = {}): UseAudioR
     }
     audioChunksRef.current = [];
     setRecordingBlob(null);
-    setRecordingTime(0);
+    clockRef.current = { elapsed: 0, startedAt: null };
+    setRecordingTimeMs(0);
     setError(null);
   }, []);
 
@@ -195,14 +482,8 @@ export const useAudioRecorder = (config: UseAudioRecorderConfig = {}): UseAudioR
   useEffect(() => {
     return () => {
       // Use refs to get current values at cleanup time
-      if (streamRef.current) {
-        for (const track of streamRef.current.getTracks()) {
-          track.stop();
-        }
-      }
-      if (timerRef.current) {
-        clearInterval(timerRef.current);
-      }
+      pcmCaptureRef.current?.stop().catch(() => {});
+      inputRef.current?.stop();
     };
   }, []);
 
@@ -214,9 +495,11 @@ export const useAudioRecorder = (config: UseAudioRecorderConfig = {}): UseAudioR
     clearRecording,
     mediaRecorder,
     recordingBlob,
-    recordingTime,
+    recordingTime: Math.floor(recordingTimeMs / 1000),
+    recordingTimeMs,
     isRecording,
     isPaused,
+    permissionState,
     error,
   };
 };
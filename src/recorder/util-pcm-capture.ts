@@ -0,0 +1,155 @@
+// ============================================================================
+// Raw PCM Capture (AudioWorklet)
+// Collects Float32 samples from a MediaStream for WAV encoding
+// ============================================================================
+
+const PROCESSOR_NAME = "wavekit-pcm-capture";
+
+// Frames collected in the worklet before posting them (32 render quanta, ~85ms at 48kHz)
+const BATCH_FRAMES = 4096;
+
+// Inlined worklet module (loaded via Blob URL so consumers need no extra asset)
+// Copies each 128-frame render quantum into a batch and posts (transfers) full batches;
+// "pause"/"resume" take effect on the audio thread, "flush" posts the partial batch marked as final
+export const PROCESSOR_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.batch = null;
+    this.length = 0;
+    this.isPaused = false;
+    this.port.onmessage = (event) => {
+      if (event.data === "pause") this.isPaused = true;
+      if (event.data === "resume") this.isPaused = false;
+      if (event.data === "flush") this.post(true);
+    };
+  }
+
+  post(final) {
+    const channels = this.batch ? this.batch.map((channel) => channel.subarray(0, this.length)) : [];
+    this.port.postMessage({ channels, final }, channels.map((channel) => channel.buffer));
+    this.batch = null;
+    this.length = 0;
+  }
+
+  process(inputs) {
+    const input = inputs[0];
+    if (this.isPaused || !input || input.length === 0) return true;
+
+    if (this.batch && this.batch.length !== input.length) this.post(false);
+
+    let offset = 0;
+    while (offset < input[0].length) {
+      if (!this.batch) this.batch = input.map(() => new Float32Array(${BATCH_FRAMES}));
+      const frames = Math.min(input[0].length - offset, ${BATCH_FRAMES} - this.length);
+      for (let ch = 0; ch < input.length; ch++) {
+        this.batch[ch].set(input[ch].subarray(offset, offset + frames), this.length);
+      }
+      this.length += frames;
+      offset += frames;
+      if (this.length === ${BATCH_FRAMES}) this.post(false);
+    }
+    return true;
+  }
+}
+registerProcessor("${PROCESSOR_NAME}", PcmCaptureProcessor);
+`;
+
+type PcmBatchMessage = { channels: Float32Array[]; final: boolean };
+
+export interface PcmCaptureOptions {
+  /** Number of channels to capture (input is up/down-mixed to this count) */
+  channelCount: number;
+}
+
+export interface PcmCapture {
+  /** Stop collecting samples (already captured samples are kept) */
+  pause: () => void;
+  /** Continue collecting samples */
+  resume: () => void;
+  /** Stop capture, release the audio graph and return all captured samples */
+  stop: () => Promise<{ channelData: Float32Array[]; sampleRate: number }>;
+}
+
+/**
+ * Start capturing raw PCM samples from a MediaStream via AudioWorklet
+ * Throws when AudioWorklet is unavailable (e.g. insecure context)
+ */
+export async function startPcmCapture(stream: MediaStream, { channelCount }: PcmCaptureOptions): Promise<PcmCapture> {
+  const audioContext = new AudioContext();
+  if (!audioContext.audioWorklet) {
+    await audioContext.close();
+    throw new Error("AudioWorklet is not supported in this browser (WAV recording requires a secure context)");
+  }
+
+  const moduleUrl = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: "application/javascript" }));
+  try {
+    await audioContext.audioWorklet.addModule(moduleUrl);
+  } finally {
+    URL.revokeObjectURL(moduleUrl);
+  }
+
+  const source = audioContext.createMediaStreamSource(stream);
+  // No outputs: the node is pulled by its input alone, nothing is routed to the speakers
+  const node = new AudioWorkletNode(audioContext, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount,
+    channelCountMode: "explicit",
+    channelInterpretation: "speakers",
+  });
+
+  const blocks: Float32Array[][] = [];
+  let resolveFlush: (() => void) | null = null;
+
+  node.port.onmessage = (event: MessageEvent<PcmBatchMessage>) => {
+    const { channels, final } = event.data;
+    if (channels.length > 0 && channels[0].length > 0) {
+      blocks.push(channels);
+    }
+    if (final) resolveFlush?.();
+  };
+
+  source.connect(node);
+
+  return {
+    pause: () => {
+      node.port.postMessage("pause");
+    },
+    resume: () => {
+      node.port.postMessage("resume");
+    },
+    stop: async () => {
+      // Collect the unposted part of the current batch (a suspended context never processes the request)
+      if (audioContext.state === "running") {
+        await new Promise<void>((resolve) => {
+          resolveFlush = resolve;
+          node.port.postMessage("flush");
+        });
+      }
+      node.port.onmessage = null;
+      source.disconnect();
+      node.disconnect();
+      const sampleRate = audioContext.sampleRate;
+      if (audioContext.state !== "closed") {
+        await audioContext.close();
+      }
+
+      // Join the posted batches into contiguous channels
+      const totalLength = blocks.reduce((sum, block) => sum + (block[0]?.length ?? 0), 0);
+      const channelData: Float32Array[] = [];
+      for (let ch = 0; ch < channelCount; ch++) {
+        const channel = new Float32Array(totalLength);
+        let offset = 0;
+        for (const block of blocks) {
+          const data = block[ch] ?? block[0];
+          if (data) channel.set(data, offset);
+          offset += block[0]?.length ?? 0;
+        }
+        channelData.push(channel);
+      }
+
+      return { channelData, sampleRate };
+    },
+  };
+}
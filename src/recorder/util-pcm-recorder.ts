@@ -0,0 +1,45 @@
+// ============================================================================
+// PCM Recorder - MediaRecorder stand-in for WAV output
+// Gives visualizers the stream, state and events they read, without running an encoder
+// ============================================================================
+
+/**
+ * Recorder handle used in WAV mode, where the AudioWorklet capture produces the audio
+ * Implements the part of MediaRecorder the visualizers and useAudioRecorder rely on:
+ * `stream`, `state`, `mimeType`, start/pause/resume/stop (with matching events) and `onstop`
+ */
+export class PcmRecorder extends EventTarget {
+  state: RecordingState = "inactive";
+  readonly mimeType = "audio/wav";
+  onstop: (() => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+
+  constructor(readonly stream: MediaStream) {
+    super();
+  }
+
+  start() {
+    if (this.state !== "inactive") return;
+    this.state = "recording";
+    this.dispatchEvent(new Event("start"));
+  }
+
+  pause() {
+    if (this.state !== "recording") return;
+    this.state = "paused";
+    this.dispatchEvent(new Event("pause"));
+  }
+
+  resume() {
+    if (this.state !== "paused") return;
+    this.state = "recording";
+    this.dispatchEvent(new Event("resume"));
+  }
+
+  stop() {
+    if (this.state === "inactive") return;
+    this.state = "inactive";
+    this.dispatchEvent(new Event("stop"));
+    this.onstop?.();
+  }
+}
@@ -0,0 +1,84 @@
+// ============================================================================
+// Recorder Errors
+// Classifies getUserMedia / MediaRecorder failures into typed error codes
+// ============================================================================
+
+/**
+ * Reason a recording failed, discriminated by `code`
+ * - "permission-denied": The user or browser policy blocked microphone access
+ * - "device-not-found": No microphone, or the requested `deviceId` is gone
+ * - "device-in-use": The microphone exists but can't be opened (used by another app, hardware error)
+ * - "insecure-context": Page isn't served over HTTPS/localhost, so microphone APIs are unavailable
+ * - "unsupported-mime-type": MediaRecorder can't record the requested `mimeType`
+ * - "unsupported": The browser lacks MediaRecorder, Web Audio or AudioWorklet (WAV output)
+ * - "recording-failed": MediaRecorder or WAV encoding failed after recording started
+ * - "unknown": Anything else (see `cause`)
+ */
+export type RecorderErrorDetails =
+  | { code: "permission-denied" }
+  | { code: "device-not-found"; deviceId?: string }
+  | { code: "device-in-use" }
+  | { code: "insecure-context" }
+  | { code: "unsupported-mime-type"; mimeType: string }
+  | { code: "unsupported" }
+  | { code: "recording-failed" }
+  | { code: "unknown" };
+
+export type RecorderErrorCode = RecorderErrorDetails["code"];
+
+/**
+ * Error surfaced by useAudioRecorder (`error` and `onError`)
+ * Narrow on `code` to handle each case; `cause` holds the original exception
+ */
+export type RecorderError = Error & RecorderErrorDetails & { cause?: unknown };
+
+/**
+ * Create a RecorderError with the given code and details
+ */
+export function createRecorderError(details: RecorderErrorDetails, message: string, cause?: unknown): RecorderError {
+  const error = new Error(message) as RecorderError;
+  error.name = "RecorderError";
+  return Object.assign(error, details, cause === undefined ? {} : { cause });
+}
+
+/**
+ * Whether the value was already classified by createRecorderError
+ */
+export function isRecorderError(value: unknown): value is RecorderError {
+  return value instanceof Error && value.name === "RecorderError" && "code" in value;
+}
+
+/**
+ * Classify a getUserMedia failure by its DOMException name
+ */
+export function toRecorderError(err: unknown, deviceId?: string): RecorderError {
+  if (isRecorderError(err)) return err;
+
+  // DOMException isn't an Error subclass in every environment, so read its fields structurally
+  const { name = "", message = String(err) } =
+    typeof err === "object" && err !== null ? (err as { name?: string; message?: string }) : {};
+
+  switch (name) {
+    case "NotAllowedError":
+    case "PermissionDeniedError":
+      return createRecorderError({ code: "permission-denied" }, "Microphone permission was denied", err);
+    case "SecurityError":
+      return typeof window !== "undefined" && window.isSecureContext === false
+        ? createRecorderError({ code: "insecure-context" }, "Microphone access requires a secure context (HTTPS)", err)
+        : createRecorderError({ code: "permission-denied" }, "Microphone access is blocked by policy", err);
+    case "NotFoundError":
+    case "DevicesNotFoundError":
+    case "OverconstrainedError":
+      return createRecorderError(
+        { code: "device-not-found", deviceId },
+        deviceId ? `Microphone "${deviceId}" was not found` : "No microphone was found",
+        err
+      );
+    case "NotReadableError":
+    case "TrackStartError":
+    case "AbortError":
+      return createRecorderError({ code: "device-in-use" }, "Microphone is in use or could not be started", err);
+    default:
+      return createRecorderError({ code: "unknown" }, message, err);
+  }
+}
@@ -0,0 +1,120 @@
+// ============================================================================
+// Switchable Microphone Input (Web Audio)
+// Routes the microphone through a stable output stream so the input can change mid-recording
+// ============================================================================
+
+import { createRecorderError } from "./util-recorder-error";
+
+export interface SwitchableInput {
+  /** Stable stream to record from (its track never changes) */
+  stream: MediaStream;
+  /** Route a new microphone stream into the output and stop the previous one (throws when switching is unavailable) */
+  replaceInput: (input: MediaStream) => void;
+  /** Stop the current microphone and release the audio graph */
+  stop: () => void;
+}
+
+// How long to wait for a suspended AudioContext to resume before recording the microphone directly
+// (resume() stays pending outside a user gesture under some autoplay policies)
+const RESUME_TIMEOUT_MS = 1000;
+
+const stopTracks = (stream: MediaStream) => {
+  for (const track of stream.getTracks()) {
+    track.stop();
+  }
+};
+
+/**
+ * Resolve whether the context is running, giving up after RESUME_TIMEOUT_MS
+ */
+async function resumeContext(audioContext: AudioContext): Promise<boolean> {
+  if (audioContext.state === "suspended") {
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    await Promise.race([
+      audioContext.resume().catch(() => {}),
+      new Promise<void>((resolve) => {
+        timeoutId = setTimeout(resolve, RESUME_TIMEOUT_MS);
+      }),
+    ]);
+    clearTimeout(timeoutId);
+  }
+  return audioContext.state === "running";
+}
+
+/**
+ * Record the microphone stream as-is (used when the audio graph can't run); switching is unavailable
+ */
+function createDirectInput(input: MediaStream): SwitchableInput {
+  return {
+    stream: input,
+    replaceInput: (next) => {
+      stopTracks(next);
+      throw createRecorderError(
+        { code: "unsupported" },
+        "Switching microphones needs a running AudioContext (start recording from a user gesture)"
+      );
+    },
+    stop: () => stopTracks(input),
+  };
+}
+
+/**
+ * Wrap a microphone stream in a MediaStreamAudioDestinationNode
+ * MediaRecorder stops with an error when its stream's tracks change, so recording from the destination
+ * keeps one MediaRecorder (and its chunks and visualizer history) across device switches.
+ * The graph runs at the microphone's sample rate and channel count, so the recording matches the raw microphone.
+ */
+export async function startSwitchableInput(input: MediaStream): Promise<SwitchableInput> {
+  const { sampleRate, channelCount } = input.getAudioTracks()[0]?.getSettings() ?? {};
+  let audioContext: AudioContext;
+  try {
+    audioContext = new AudioContext(sampleRate ? { sampleRate } : undefined);
+  } catch {
+    // Sample rate outside the supported range: record the microphone directly
+    return createDirectInput(input);
+  }
+
+  // Contexts created outside a user gesture start suspended and would record silence
+  if (!(await resumeContext(audioContext))) {
+    audioContext.close();
+    return createDirectInput(input);
+  }
+
+  let destination: MediaStreamAudioDestinationNode;
+  let source: MediaStreamAudioSourceNode;
+  try {
+    destination = audioContext.createMediaStreamDestination();
+    // Destinations default to stereo, which would turn a mono microphone into a two-channel recording
+    if (channelCount) destination.channelCount = channelCount;
+    source = audioContext.createMediaStreamSource(input);
+    source.connect(destination);
+  } catch (error) {
+    // Release the microphone, the caller never receives it
+    stopTracks(input);
+    audioContext.close();
+    throw error;
+  }
+
+  let currentInput = input;
+
+  return {
+    stream: destination.stream,
+    replaceInput: (next) => {
+      // Connect the new source before dropping the old one to avoid a gap
+      const nextSource = audioContext.createMediaStreamSource(next);
+      nextSource.connect(destination);
+      source.disconnect();
+      stopTracks(currentInput);
+      source = nextSource;
+      currentInput = next;
+    },
+    stop: () => {
+      source.disconnect();
+      stopTracks(currentInput);
+      stopTracks(destination.stream);
+      if (audioContext.state !== "closed") {
+        audioContext.close();
+      }
+    },
+  };
+}
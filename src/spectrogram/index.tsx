@@ -0,0 +1,416 @@
+import { forwardRef, useCallback, useEffect, useImperativeHandle, useRef, useState } from "react";
+import { DEFAULT_PLAYHEAD_APPEARANCE, DRAG_THRESHOLD } from "../constants";
+import type {
+  AudioSpectrogramAppearance,
+  SpectrogramColorMap,
+  SpectrogramFrequencyScale,
+  SpectrogramWindowFunction,
+} from "../types";
+import { type AudioDecoderMode, decodeAudioSamples, type WaveformChannelMode } from "../waveform/util-audio-decoder";
+import { type AudioFetchOptions, fetchAudioBlob, getAudioFetchKey } from "../waveform/util-audio-fetch";
+import { formatTimeForScreen } from "../waveform/util-format-time";
+import { createSpectrogramPixels } from "./util-spectrogram-image";
+import { computeSpectrogramAsync, type SpectrogramData } from "./util-stft";
+
+// Arrow keys seek by this many seconds (same as AudioWaveform)
+const SEEK_STEP = 5;
+
+const DEFAULT_COLOR_MAP: SpectrogramColorMap = "viridis";
+
+const isSameColorMap = (a: SpectrogramColorMap | string[], b: SpectrogramColorMap | string[]) =>
+  a === b || (Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((color, i) => color === b[i]));
+
+// ============================================================================
+// AudioSpectrogram - STFT frequency-over-time view
+// ============================================================================
+
+export interface AudioSpectrogramProps extends React.CanvasHTMLAttributes<HTMLCanvasElement> {
+  /** Audio blob to analyze (provide either blob or src) */
+  blob?: Blob | null;
+  /** Audio URL to fetch and analyze (ignored when blob is provided) */
+  src?: string;
+  /** Request options for `src` (credentials, headers, Range chunking) */
+  fetchOptions?: AudioFetchOptions;
+  /** Which channel is analyzed: first channel or averaged mix. Default: "first" */
+  channels?: Exclude<WaveformChannelMode, "split">;
+  /** Where WASM decoding runs. Default: "main" */
+  decoder?: AudioDecoderMode;
+  /** FFT size (power of 2; larger = finer frequency, coarser time resolution). Default: 1024 */
+  fftSize?: number;
+  /** Window applied to each frame. Default: "hann" */
+  windowFunction?: SpectrogramWindowFunction;
+  /** Vertical frequency axis. Default: "linear" */
+  frequencyScale?: SpectrogramFrequencyScale;
+  /** Lowest frequency shown in Hz (log scale starts at 20 Hz at the lowest). Default: 0 */
+  minFrequency?: number;
+  /** Highest frequency shown in Hz. Default: half the sample rate */
+  maxFrequency?: number;
+  /** Level (dB, 0 = full scale) drawn in the lowest color. Default: -90 */
+  minDecibels?: number;
+  /** Level (dB) drawn in the highest color. Default: 0 */
+  maxDecibels?: number;
+  /** Built-in color map or custom "#rrggbb" stops from low to high energy. Default: "viridis" */
+  colorMap?: SpectrogramColorMap | string[];
+  /** Playhead appearance */
+  appearance?: AudioSpectrogramAppearance;
+  /** Current playback time in seconds (shows playhead) */
+  currentTime?: number;
+  /** Total audio duration in seconds. Default: the decoded length */
+  duration?: number;
+  /** Callback when user clicks/seeks on the spectrogram (simple seek) */
+  onSeek?: (time: number) => void;
+  /** Callback when drag-to-seek starts (use to pause playback) */
+  onSeekStart?: () => void;
+  /** Callback during drag-to-seek with current time (real-time updates) */
+  onSeekDrag?: (time: number) => void;
+  /** Callback when drag-to-seek ends (use to resume playback) */
+  onSeekEnd?: (time: number) => void;
+}
+
+export interface AudioSpectrogramRef {
+  canvas: HTMLCanvasElement | null;
+}
+
+export const AudioSpectrogram = forwardRef<AudioSpectrogramRef, AudioSpectrogramProps>(function AudioSpectrogram(
+  {
+    blob,
+    src,
+    fetchOptions,
+    channels = "first",
+    decoder = "main",
+    fftSize = 1024,
+    windowFunction = "hann",
+    frequencyScale = "linear",
+    minFrequency = 0,
+    maxFrequency,
+    minDecibels = -90,
+    maxDecibels = 0,
+    colorMap = DEFAULT_COLOR_MAP,
+    appearance,
+    currentTime,
+    duration: durationProp,
+    onSeek,
+    onSeekStart,
+    onSeekDrag,
+    onSeekEnd,
+    onClick,
+    onPointerDown,
+    onPointerMove,
+    onPointerUp,
+    onPointerCancel,
+    style,
+    ...props
+  },
+  ref
+) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [fetchedBlob, setFetchedBlob] = useState<Blob | null>(null);
+  const [audio, setAudio] = useState<{ samples: Float32Array; sampleRate: number } | null>(null);
+  const [spectrogram, setSpectrogram] = useState<SpectrogramData | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  // Spectrogram painted at one column per frame, stretched to the canvas width on draw
+  const imageRef = useRef<HTMLCanvasElement | null>(null);
+  const isDraggingRef = useRef(false);
+  // Pressed pointer (drag starts once it passes DRAG_THRESHOLD)
+  const pointerRef = useRef<{ id: number; startX: number; lastX: number; threshold: number } | null>(null);
+  // Latest fetch options (read when the request key changes)
+  const fetchOptionsRef = useRef(fetchOptions);
+  fetchOptionsRef.current = fetchOptions;
+  // Custom stops compare by value, so an inline array doesn't repaint the image on every render
+  const colorMapRef = useRef(colorMap);
+  if (!isSameColorMap(colorMapRef.current, colorMap)) {
+    colorMapRef.current = colorMap;
+  }
+  const stableColorMap = colorMapRef.current;
+
+  useImperativeHandle(ref, () => ({
+    canvas: canvasRef.current,
+  }));
+
+  // Fetch audio when the request changes and no blob is provided (aborted on change/unmount)
+  // Keyed like AudioWaveform: a new `src` or different request options refetch, an equal inline object doesn't
+  const fetchKey = !blob && src ? getAudioFetchKey(src, fetchOptions) : null;
+  useEffect(() => {
+    setFetchedBlob(null);
+    if (!fetchKey || !src) return;
+
+    const controller = new AbortController();
+    setError(null);
+
+    fetchAudioBlob(src, fetchOptionsRef.current, controller.signal)
+      .then((data) => {
+        if (!controller.signal.aborted) {
+          setFetchedBlob(data);
+        }
+      })
+      .catch((err) => {
+        if (!controller.signal.aborted) {
+          setError(err instanceof Error ? err : new Error(err?.message || "Failed to fetch audio"));
+        }
+      });
+
+    return () => {
+      controller.abort();
+    };
+  }, [src, fetchKey]);
+
+  // Fetched audio goes through the same decode path as the blob prop
+  const sourceBlob = blob ?? fetchedBlob;
+
+  useEffect(() => {
+    setAudio(null);
+    if (!sourceBlob) return;
+
+    let cancelled = false;
+    setError(null);
+
+    decodeAudioSamples(sourceBlob, { decoder, channels })
+      .then((data) => {
+        if (!cancelled) {
+          setAudio(data);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err : new Error(err?.message || "Failed to decode audio"));
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sourceBlob, decoder, channels]);
+
+  // STFT is independent of canvas size, so resizes only repaint
+  // Computed in chunks so long files don't freeze the page (aborted when the inputs change)
+  useEffect(() => {
+    setSpectrogram(null);
+    if (!audio) return;
+
+    const controller = new AbortController();
+
+    computeSpectrogramAsync(audio.samples, audio.sampleRate, { fftSize, windowFunction }, controller.signal)
+      .then(setSpectrogram)
+      .catch((err) => {
+        if (!controller.signal.aborted) {
+          setError(err instanceof Error ? err : new Error(err?.message || "Failed to analyze audio"));
+        }
+      });
+
+    return () => {
+      controller.abort();
+    };
+  }, [audio, fftSize, windowFunction]);
+
+  const duration = durationProp ?? spectrogram?.duration ?? 0;
+
+  // Paint the spectrogram image at device resolution vertically
+  useEffect(() => {
+    imageRef.current = null;
+    const rows = Math.round(size.height * (window.devicePixelRatio || 1));
+    if (!spectrogram || spectrogram.frameCount === 0 || rows === 0) return;
+
+    const image = document.createElement("canvas");
+    const ctx = image.getContext("2d");
+    if (!ctx) return;
+
+    image.width = spectrogram.frameCount;
+    image.height = rows;
+    const pixels = createSpectrogramPixels(spectrogram, rows, {
+      frequencyScale,
+      minFrequency,
+      maxFrequency: maxFrequency ?? spectrogram.sampleRate / 2,
+      minDecibels,
+      maxDecibels,
+      colorMap: stableColorMap,
+    });
+    ctx.putImageData(new ImageData(pixels, spectrogram.frameCount, rows), 0, 0);
+    imageRef.current = image;
+  }, [spectrogram, size.height, frequencyScale, minFrequency, maxFrequency, minDecibels, maxDecibels, stableColorMap]);
+
+  // Composite the cached image and the playhead (cheap enough to run on every currentTime change)
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const { width, height } = size;
+    if (!canvas || width === 0 || height === 0) return;
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    if (canvas.width !== width * dpr || canvas.height !== height * dpr) {
+      canvas.width = width * dpr;
+      canvas.height = height * dpr;
+    }
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+
+    if (imageRef.current) {
+      ctx.drawImage(imageRef.current, 0, 0, width, height);
+    }
+
+    if (currentTime !== undefined && duration > 0) {
+      const playheadColor = appearance?.playheadColor ?? DEFAULT_PLAYHEAD_APPEARANCE.playheadColor;
+      const playheadWidth = appearance?.playheadWidth ?? DEFAULT_PLAYHEAD_APPEARANCE.playheadWidth;
+      const playheadX = (Math.max(0, Math.min(currentTime, duration)) / duration) * width;
+
+      ctx.fillStyle = playheadColor;
+      ctx.fillRect(playheadX - playheadWidth / 2, 0, playheadWidth, height);
+    }
+  });
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const resizeObserver = new ResizeObserver((entries) => {
+      const entry = entries[0];
+      if (!entry) return;
+      const { width, height } = entry.contentRect;
+      setSize((prev) => (prev.width === width && prev.height === height ? prev : { width, height }));
+    });
+
+    resizeObserver.observe(canvas);
+    return () => resizeObserver.disconnect();
+  }, []);
+
+  const getTimeFromPosition = useCallback(
+    (clientX: number) => {
+      const canvas = canvasRef.current;
+      if (!canvas || duration <= 0) return 0;
+      const rect = canvas.getBoundingClientRect();
+      const ratio = rect.width > 0 ? (clientX - rect.left) / rect.width : 0;
+      return Math.max(0, Math.min(1, ratio)) * duration;
+    },
+    [duration]
+  );
+
+  const isDragEnabled = !!onSeekStart || !!onSeekDrag || !!onSeekEnd;
+  const isInteractive = !!onSeek || isDragEnabled;
+
+  const startDrag = useCallback(
+    (clientX: number) => {
+      isDraggingRef.current = true;
+      onSeekStart?.();
+      onSeekDrag?.(getTimeFromPosition(clientX));
+    },
+    [getTimeFromPosition, onSeekStart, onSeekDrag]
+  );
+
+  // Pointer down: drag-to-seek for mouse, touch and pen (touch and pen wait for DRAG_THRESHOLD)
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    onPointerDown?.(e);
+    if (!isDragEnabled || !e.isPrimary || e.button !== 0 || duration <= 0) return;
+
+    const threshold = DRAG_THRESHOLD[e.pointerType] ?? 0;
+    e.currentTarget.setPointerCapture?.(e.pointerId);
+    pointerRef.current = { id: e.pointerId, startX: e.clientX, lastX: e.clientX, threshold };
+    if (threshold === 0) {
+      startDrag(e.clientX);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    onPointerMove?.(e);
+    const pointer = pointerRef.current;
+    if (!pointer || pointer.id !== e.pointerId) return;
+
+    pointer.lastX = e.clientX;
+    if (!isDraggingRef.current) {
+      if (Math.abs(e.clientX - pointer.startX) >= pointer.threshold) {
+        startDrag(e.clientX);
+      }
+      return;
+    }
+    onSeekDrag?.(getTimeFromPosition(e.clientX));
+  };
+
+  // Pointer up/cancel: a tap seeks to the tapped time, a cancelled press (page scroll) does nothing
+  const finishPointer = (e: React.PointerEvent<HTMLCanvasElement>, cancelled: boolean) => {
+    const pointer = pointerRef.current;
+    if (!pointer || pointer.id !== e.pointerId) return;
+    pointerRef.current = null;
+
+    if (!isDraggingRef.current) {
+      if (cancelled) return;
+      startDrag(e.clientX);
+    }
+    isDraggingRef.current = false;
+    // pointercancel coordinates are unreliable, so use the last known position
+    onSeekEnd?.(getTimeFromPosition(cancelled ? pointer.lastX : e.clientX));
+  };
+
+  const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    // Drag-to-seek already handled the press
+    if (!isDragEnabled && onSeek && duration > 0) {
+      onSeek(getTimeFromPosition(e.clientX));
+    }
+    onClick?.(e);
+  };
+
+  // Keyboard handler: Arrow keys seek 5s, Home/End jump to start/end
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLCanvasElement>) => {
+    if (!onSeek || duration <= 0) return;
+    const current = currentTime ?? 0;
+
+    switch (e.key) {
+      case "ArrowLeft":
+        e.preventDefault();
+        onSeek(Math.max(0, current - SEEK_STEP));
+        break;
+      case "ArrowRight":
+        e.preventDefault();
+        onSeek(Math.min(duration, current + SEEK_STEP));
+        break;
+      case "Home":
+        e.preventDefault();
+        onSeek(0);
+        break;
+      case "End":
+        e.preventDefault();
+        onSeek(duration);
+        break;
+    }
+  };
+
+  if (error) {
+    throw error;
+  }
+
+  return (
+    <canvas
+      ref={canvasRef}
+      role={isInteractive ? "slider" : "img"}
+      aria-label={isInteractive ? "Audio seek" : "Audio spectrogram"}
+      aria-valuemin={isInteractive ? 0 : undefined}
+      aria-valuemax={isInteractive ? Math.floor(duration) : undefined}
+      aria-valuenow={isInteractive ? Math.floor(currentTime ?? 0) : undefined}
+      aria-valuetext={
+        isInteractive ? `${formatTimeForScreen(currentTime ?? 0)} / ${formatTimeForScreen(duration)}` : undefined
+      }
+      tabIndex={isInteractive ? 0 : -1}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={(e) => {
+        onPointerUp?.(e);
+        finishPointer(e, false);
+      }}
+      onPointerCancel={(e) => {
+        onPointerCancel?.(e);
+        finishPointer(e, true);
+      }}
+      onClick={handleClick}
+      onKeyDown={isInteractive ? handleKeyDown : undefined}
+      style={{
+        cursor: isInteractive ? (isDragEnabled ? "grab" : "pointer") : undefined,
+        // Horizontal drags belong to the spectrogram; vertical pans still scroll the page
+        touchAction: isDragEnabled ? "pan-y pinch-zoom" : undefined,
+        ...style,
+      }}
+      {...props}
+    />
+  );
+});
+
+export default AudioSpectrogram;
@@ -0,0 +1,118 @@
+// ============================================================================
+// Spectrogram Image
+// Frequency axis mapping and color maps for painting STFT magnitudes
+// ============================================================================
+
+import type { SpectrogramColorMap, SpectrogramFrequencyScale } from "../types";
+import type { SpectrogramData } from "./util-stft";
+
+// Color stops (low to high energy) for the built-in color maps
+const COLOR_MAPS: Record<SpectrogramColorMap, string[]> = {
+  viridis: ["#440154", "#3b528b", "#21918c", "#5ec962", "#fde725"],
+  magma: ["#000004", "#3b0f70", "#8c2981", "#de4968", "#fe9f6d", "#fcfdbf"],
+  grayscale: ["#000000", "#ffffff"],
+};
+
+// Lowest frequency on a log axis when minFrequency is 0 (log(0) is undefined)
+const LOG_SCALE_FLOOR = 20;
+
+const toMel = (frequency: number) => 2595 * Math.log10(1 + frequency / 700);
+const fromMel = (mel: number) => 700 * (10 ** (mel / 2595) - 1);
+
+/**
+ * Frequency (Hz) at a position on the vertical axis (0 = bottom, 1 = top)
+ */
+export function getFrequencyAtPosition(
+  position: number,
+  scale: SpectrogramFrequencyScale,
+  minFrequency: number,
+  maxFrequency: number
+): number {
+  switch (scale) {
+    case "log": {
+      const low = Math.max(minFrequency, LOG_SCALE_FLOOR);
+      return low * (maxFrequency / low) ** position;
+    }
+    case "mel": {
+      const low = toMel(minFrequency);
+      return fromMel(low + (toMel(maxFrequency) - low) * position);
+    }
+    default:
+      return minFrequency + (maxFrequency - minFrequency) * position;
+  }
+}
+
+/**
+ * Parse "#rrggbb" color stops into a 256-entry RGB lookup table
+ */
+export function createColorLookup(colorMap: SpectrogramColorMap | string[]): Uint8ClampedArray {
+  const stops = (Array.isArray(colorMap) ? colorMap : COLOR_MAPS[colorMap]).map((color) => {
+    const hex = color.replace("#", "");
+    return [0, 2, 4].map((start) => Number.parseInt(hex.slice(start, start + 2), 16) || 0);
+  });
+  const lookup = new Uint8ClampedArray(256 * 3);
+  if (stops.length === 0) return lookup;
+
+  for (let i = 0; i < 256; i++) {
+    const position = (i / 255) * (stops.length - 1);
+    const index = Math.min(Math.floor(position), stops.length - 2);
+    const from = stops[Math.max(index, 0)];
+    const to = stops[Math.min(index + 1, stops.length - 1)];
+    const t = position - Math.max(index, 0);
+    for (let channel = 0; channel < 3; channel++) {
+      lookup[i * 3 + channel] = from[channel] + (to[channel] - from[channel]) * t;
+    }
+  }
+  return lookup;
+}
+
+export interface SpectrogramImageOptions {
+  frequencyScale: SpectrogramFrequencyScale;
+  minFrequency: number;
+  maxFrequency: number;
+  /** dB mapped to the lowest color */
+  minDecibels: number;
+  /** dB mapped to the highest color */
+  maxDecibels: number;
+  colorMap: SpectrogramColorMap | string[];
+}
+
+/**
+ * Paint RGBA pixels with one column per frame and `height` rows (top row = highest frequency)
+ * Ready for `new ImageData(pixels, data.frameCount, height)`
+ */
+export function createSpectrogramPixels(
+  data: SpectrogramData,
+  height: number,
+  options: SpectrogramImageOptions
+): Uint8ClampedArray<ArrayBuffer> {
+  const { frameCount, binCount, sampleRate, magnitudes } = data;
+  const { frequencyScale, minFrequency, maxFrequency, minDecibels, maxDecibels, colorMap } = options;
+  const pixels = new Uint8ClampedArray(frameCount * height * 4);
+  const lookup = createColorLookup(colorMap);
+  const range = maxDecibels - minDecibels || 1;
+  const binWidth = sampleRate / 2 / binCount;
+
+  // Bin under each row's center, computed once for all frames
+  const rowBins = new Uint32Array(height);
+  for (let row = 0; row < height; row++) {
+    const position = 1 - (row + 0.5) / height;
+    const frequency = getFrequencyAtPosition(position, frequencyScale, minFrequency, maxFrequency);
+    rowBins[row] = Math.min(binCount - 1, Math.max(0, Math.round(frequency / binWidth)));
+  }
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const base = frame * binCount;
+    for (let row = 0; row < height; row++) {
+      const level = (magnitudes[base + rowBins[row]] - minDecibels) / range;
+      const color = Math.round(Math.min(1, Math.max(0, level)) * 255) * 3;
+      const pixel = (row * frameCount + frame) * 4;
+      pixels[pixel] = lookup[color];
+      pixels[pixel + 1] = lookup[color + 1];
+      pixels[pixel + 2] = lookup[color + 2];
+      pixels[pixel + 3] = 255;
+    }
+  }
+
+  return pixels;
+}
@@ -0,0 +1,206 @@
+// ============================================================================
+// Short-Time Fourier Transform
+// Windowed FFT frames over decoded PCM for spectrogram rendering
+// ============================================================================
+
+import type { SpectrogramWindowFunction } from "../types";
+
+// Cap on output frames (image columns): enough for wide canvases; longer files average several FFTs per frame
+const MAX_FRAMES = 4096;
+
+// Main-thread time (ms) spent on frames before yielding to the event loop in computeSpectrogramAsync
+const CHUNK_BUDGET_MS = 12;
+
+// Quietest magnitude kept before converting to dB (avoids -Infinity for silent bins)
+const MIN_MAGNITUDE = 1e-10;
+
+/**
+ * Magnitudes (dB, 0 dB = full-scale sine) for each frame, stored frame by frame
+ */
+export interface SpectrogramData {
+  /** `frameCount * binCount` dB values; frame `i` starts at `i * binCount` */
+  magnitudes: Float32Array;
+  frameCount: number;
+  /** Frequency bins per frame (fftSize / 2) */
+  binCount: number;
+  sampleRate: number;
+  /** Audio length in seconds */
+  duration: number;
+}
+
+export interface SpectrogramOptions {
+  /** FFT size (power of 2). Default: 1024 */
+  fftSize?: number;
+  /** Window applied to each frame. Default: "hann" */
+  windowFunction?: SpectrogramWindowFunction;
+}
+
+/**
+ * Window coefficients for one frame
+ */
+export function createWindow(size: number, type: SpectrogramWindowFunction): Float32Array {
+  const window = new Float32Array(size);
+  const last = size - 1;
+  for (let i = 0; i < size; i++) {
+    const phase = (2 * Math.PI * i) / last;
+    switch (type) {
+      case "hamming":
+        window[i] = 0.54 - 0.46 * Math.cos(phase);
+        break;
+      case "blackman":
+        window[i] = 0.42 - 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase);
+        break;
+      case "rectangular":
+        window[i] = 1;
+        break;
+      default:
+        window[i] = 0.5 - 0.5 * Math.cos(phase);
+    }
+  }
+  return window;
+}
+
+/**
+ * In-place iterative radix-2 FFT (`real.length` must be a power of 2)
+ */
+export function fft(real: Float32Array, imag: Float32Array): void {
+  const size = real.length;
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < size; i++) {
+    let bit = size >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+
+  for (let length = 2; length <= size; length <<= 1) {
+    const angle = (-2 * Math.PI) / length;
+    const stepReal = Math.cos(angle);
+    const stepImag = Math.sin(angle);
+    for (let start = 0; start < size; start += length) {
+      let wReal = 1;
+      let wImag = 0;
+      for (let k = 0; k < length / 2; k++) {
+        const a = start + k;
+        const b = a + length / 2;
+        const tReal = real[b] * wReal - imag[b] * wImag;
+        const tImag = real[b] * wImag + imag[b] * wReal;
+        real[b] = real[a] - tReal;
+        imag[b] = imag[a] - tImag;
+        real[a] += tReal;
+        imag[a] += tImag;
+        const nextReal = wReal * stepReal - wImag * stepImag;
+        wImag = wReal * stepImag + wImag * stepReal;
+        wReal = nextReal;
+      }
+    }
+  }
+}
+
+/**
+ * Set up the STFT of mono samples; frames are filled in by calling `computeFrames` over frame ranges
+ * Frames overlap by 75% on short files. On long files each frame covers a wider hop, so it averages the power of
+ * FFTs spaced at most half a window apart across the hop, leaving no samples unanalyzed
+ */
+function createSpectrogram(samples: Float32Array, sampleRate: number, options: SpectrogramOptions) {
+  const { fftSize = 1024, windowFunction = "hann" } = options;
+  if (fftSize < 2 || (fftSize & (fftSize - 1)) !== 0) {
+    throw new Error(`fftSize must be a power of 2 (got ${fftSize})`);
+  }
+
+  const binCount = fftSize / 2;
+  const hopSize = Math.max(fftSize / 4, Math.ceil(samples.length / MAX_FRAMES));
+  const frameCount = samples.length > 0 ? Math.ceil(samples.length / hopSize) : 0;
+  const subFrameCount = Math.ceil(hopSize / (fftSize / 2));
+  const subHop = hopSize / subFrameCount;
+  const data: SpectrogramData = {
+    magnitudes: new Float32Array(frameCount * binCount),
+    frameCount,
+    binCount,
+    sampleRate,
+    duration: samples.length / sampleRate,
+  };
+
+  const window = createWindow(fftSize, windowFunction);
+  // Scale so a full-scale sine peaks at 0 dB regardless of window and FFT size
+  const windowSum = window.reduce((sum, value) => sum + value, 0);
+  const scale = 2 / windowSum;
+  const real = new Float32Array(fftSize);
+  const imag = new Float32Array(fftSize);
+  const power = new Float32Array(binCount);
+
+  const computeFrames = (from: number, to: number) => {
+    for (let frame = from; frame < to; frame++) {
+      power.fill(0);
+      for (let sub = 0; sub < subFrameCount; sub++) {
+        // Windows spread across the hop from its start, so the first column describes time 0
+        const offset = Math.round(frame * hopSize + sub * subHop) - fftSize / 2;
+        for (let i = 0; i < fftSize; i++) {
+          const index = offset + i;
+          real[i] = index >= 0 && index < samples.length ? samples[index] * window[i] : 0;
+          imag[i] = 0;
+        }
+
+        fft(real, imag);
+
+        for (let bin = 0; bin < binCount; bin++) {
+          power[bin] += real[bin] * real[bin] + imag[bin] * imag[bin];
+        }
+      }
+
+      const base = frame * binCount;
+      for (let bin = 0; bin < binCount; bin++) {
+        const magnitude = Math.sqrt(power[bin] / subFrameCount) * scale;
+        data.magnitudes[base + bin] = 20 * Math.log10(Math.max(magnitude, MIN_MAGNITUDE));
+      }
+    }
+  };
+
+  return { data, computeFrames };
+}
+
+/**
+ * Compute a magnitude spectrogram from mono samples in one go (blocks the thread on long files)
+ */
+export function computeSpectrogram(
+  samples: Float32Array,
+  sampleRate: number,
+  options: SpectrogramOptions = {}
+): SpectrogramData {
+  const { data, computeFrames } = createSpectrogram(samples, sampleRate, options);
+  computeFrames(0, data.frameCount);
+  return data;
+}
+
+/**
+ * Compute a magnitude spectrogram in time-boxed chunks, yielding to the event loop between them
+ * Keeps the UI responsive on long files; rejects with an AbortError when `signal` aborts
+ */
+export async function computeSpectrogramAsync(
+  samples: Float32Array,
+  sampleRate: number,
+  options: SpectrogramOptions = {},
+  signal?: AbortSignal
+): Promise<SpectrogramData> {
+  const { data, computeFrames } = createSpectrogram(samples, sampleRate, options);
+
+  let frame = 0;
+  while (frame < data.frameCount) {
+    signal?.throwIfAborted();
+    const deadline = performance.now() + CHUNK_BUDGET_MS;
+    while (frame < data.frameCount && performance.now() < deadline) {
+      computeFrames(frame, frame + 1);
+      frame++;
+    }
+    if (frame < data.frameCount) {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+  }
+
+  signal?.throwIfAborted();
+  return data;
+}
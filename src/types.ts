@@ -19,15 +19,54 @@ export interface WaveformAppearance {
   barHeightScale?: number;
 }
 
+/**
+ * Timeline ruler appearance (`showTimeline`)
+ * Shared by AudioWaveform and LiveStreamingRecorder.Canvas
+ */
+export interface TimelineAppearance {
+  /** Timeline tick and label color (CSS color value). Default: "rgba(100, 116, 139, 0.9)" (slate-500) */
+  timelineColor?: string;
+  /** Timeline label font (CSS font shorthand). Default: "10px sans-serif" */
+  timelineFont?: string;
+}
+
 /**
  * AudioWaveform-specific appearance configuration
  * Extends WaveformAppearance with playhead styles
  */
-export interface AudioWaveformAppearance extends WaveformAppearance {
+export interface AudioWaveformAppearance extends WaveformAppearance, TimelineAppearance {
   /** Playhead color (CSS color value). Default: "#ef4444" (red-500) */
   playheadColor?: string;
   /** Playhead width (pixels). Default: 2 */
   playheadWidth?: number;
+  /** Color of the played part of the waveform, left of `currentTime` (CSS color value). Default: none (bars keep barColor) */
+  progressColor?: string;
+  /** Vertical gradient (top to bottom color stops) for the played part, overrides progressColor. Default: none */
+  progressGradient?: string[];
+  /** Hover cursor line color (CSS color value). Default: "rgba(100, 116, 139, 0.6)" (slate-500) */
+  hoverCursorColor?: string;
+  /** Hover cursor line width (pixels). Default: 1 */
+  hoverCursorWidth?: number;
+  /** Default marker color (CSS color value). Default: "#f59e0b" (amber-500) */
+  markerColor?: string;
+  /** Marker line width (pixels). Default: 1 */
+  markerWidth?: number;
+  /** Opacity of marker time spans (0-1). Default: 0.2 */
+  markerSpanOpacity?: number;
+  /** Marker and region label font (CSS font shorthand). Default: "11px sans-serif" */
+  markerFont?: string;
+  /** Default region color (CSS color value). Default: "#10b981" (emerald-500) */
+  regionColor?: string;
+  /** Opacity of region fills (0-1). Default: 0.2 */
+  regionOpacity?: number;
+  /** Region edge handle width (pixels, doubled on the keyboard-focused edge). Default: 2 */
+  regionHandleWidth?: number;
+  /** Selection overlay color (CSS color value). Default: "rgba(59, 130, 246, 0.2)" */
+  selectionColor?: string;
+  /** Selection edge handle color (CSS color value). Default: "#3b82f6" (blue-500) */
+  selectionHandleColor?: string;
+  /** Selection edge handle width (pixels). Default: 4 */
+  selectionHandleWidth?: number;
 }
 
 /**
@@ -45,7 +84,196 @@ export interface ScrollbarAppearance {
  * LiveStreamingRecorder-specific appearance configuration
  * Extends WaveformAppearance with scrollbar styles
  */
-export interface LiveStreamingRecorderAppearance extends WaveformAppearance {
+export interface LiveStreamingRecorderAppearance extends WaveformAppearance, TimelineAppearance {
   /** Scrollbar appearance configuration */
   scrollbar?: ScrollbarAppearance;
 }
+
+/**
+ * LiveRecorder-specific appearance configuration
+ * Extends WaveformAppearance with spectrum peak caps and the oscilloscope line
+ */
+export interface LiveRecorderAppearance extends WaveformAppearance {
+  /** Spectrum peak-hold cap color (CSS color value). Default: barColor */
+  peakColor?: string;
+  /** Spectrum peak-hold cap height (pixels). Default: 2 */
+  peakHeight?: number;
+  /** Oscilloscope line width (pixels). Default: 2 */
+  lineWidth?: number;
+}
+
+/**
+ * What LiveRecorder draws
+ * - "waveform": Mirrored bars of the current time-domain samples
+ * - "spectrum": EQ-style frequency bars on a log axis, with peak-hold caps
+ * - "oscilloscope": Continuous line of the current time-domain samples
+ */
+export type LiveRecorderMode = "waveform" | "spectrum" | "oscilloscope";
+
+// ============================================================================
+// Waveform Types - Shared data structures for waveform interaction
+// ============================================================================
+
+/**
+ * Pointer position passed to a waveform's hover tooltip render prop
+ */
+export interface WaveformHoverInfo {
+  /** Time under the pointer in seconds */
+  time: number;
+  /** Time formatted as "m:ss" */
+  formattedTime: string;
+  /** Pointer x relative to the canvas (CSS pixels) */
+  x: number;
+}
+
+/**
+ * Annotation drawn on a waveform: a labeled vertical line, or a colored time span when `end` is set
+ * Used by AudioWaveform for cue points, flags and chapters
+ */
+export interface WaveformMarker {
+  /** Unique id (stable across renders, used to track drags) */
+  id: string;
+  /** Marker time in seconds (span start when `end` is set) */
+  time: number;
+  /** Span end time in seconds (omit for a single cue point) */
+  end?: number;
+  /** Text drawn next to the marker line */
+  label?: string;
+  /** Marker color (CSS color value). Default: appearance.markerColor */
+  color?: string;
+  /** Whether the marker can be dragged (when onMarkerDrag is provided). Default: true */
+  draggable?: boolean;
+}
+
+/**
+ * Labeled, editable time range on a waveform (speaker turns, redactions)
+ * Used by AudioWaveform's regions API
+ */
+export interface WaveformRegion {
+  /** Unique id (stable across renders) */
+  id: string;
+  /** Start time in seconds */
+  start: number;
+  /** End time in seconds */
+  end: number;
+  /** Text drawn at the top-left of the region */
+  label?: string;
+  /** Region color (CSS color value). Default: appearance.regionColor */
+  color?: string;
+  /** Whether the region can be resized, moved and deleted. Default: true */
+  editable?: boolean;
+}
+
+/**
+ * How edited regions treat their neighbors
+ * - "allow": regions may overlap freely
+ * - "prevent": edges and moves stop at neighboring regions, and new regions can't start inside one
+ */
+export type WaveformRegionOverlap = "allow" | "prevent";
+
+/**
+ * Change reported with the next region list
+ */
+export interface WaveformRegionChange {
+  /** "add" for a newly drawn region, "update" for a resize/move, "remove" for a deletion */
+  type: "add" | "update" | "remove";
+  /** The added, updated or removed region */
+  region: WaveformRegion;
+}
+
+/**
+ * Time range selected on a waveform
+ * Used by AudioWaveform for region selection and trimming
+ */
+export interface WaveformSelection {
+  /** Selection start time in seconds */
+  start: number;
+  /** Selection end time in seconds */
+  end: number;
+}
+
+/**
+ * How waveform bars summarize the samples they cover
+ * - "average": Mean absolute amplitude (smooth, hides transients)
+ * - "rms": Root mean square (closer to perceived loudness)
+ * - "peak": Largest absolute sample (shows transients and clipping)
+ * - "minmax": Asymmetric positive/negative envelopes (true signal shape)
+ */
+export type WaveformPeakMode = "average" | "rms" | "peak" | "minmax";
+
+/**
+ * Amplitude normalization
+ * - "per-file": The loudest value fills the height (every recording looks equally loud)
+ * - "none": Full scale (0 dBFS) fills the height, so levels are comparable across recordings
+ * - number: Fixed reference amplitude (0-1) that fills the height, shared across recordings
+ */
+export type WaveformNormalize = "per-file" | "none" | number;
+
+/**
+ * Amplitude axis: "linear", or "db" (logarithmic, from `dbFloor` up to the reference level)
+ */
+export type WaveformScale = "linear" | "db";
+
+/**
+ * Options mapping amplitudes to bar heights
+ * Shared by the decoder, AudioWaveform and the live recorders
+ */
+export interface AmplitudeScaleOptions {
+  /** Normalization reference. Default: "per-file" for decoded audio, "none" for live recorders */
+  normalize?: WaveformNormalize;
+  /** Linear or logarithmic (dB) amplitude axis. Default: "linear" */
+  scale?: WaveformScale;
+  /** Quietest level shown on the dB scale, in dB below the reference (negative). Default: -60 */
+  dbFloor?: number;
+}
+
+/**
+ * Serializable peaks for a decoded audio file (JSON schema version 1)
+ * Produced by `generatePeaksData` (react-audio-wavekit/node) to precompute peaks at upload time
+ */
+export interface WaveformPeaksData {
+  /** Schema version */
+  version: 1;
+  /** Source sample rate in Hz */
+  sampleRate: number;
+  /** Source duration in seconds (pass as AudioWaveform's `duration`) */
+  duration: number;
+  /** Normalized peaks (0-1 range) evenly spaced over the duration (pass as AudioWaveform's `peaks`) */
+  peaks: number[];
+}
+
+// ============================================================================
+// Spectrogram Types
+// ============================================================================
+
+/**
+ * Window applied to each STFT frame
+ * - "hann": Good general-purpose leakage/resolution trade-off
+ * - "hamming": Slightly narrower peaks, higher side lobes
+ * - "blackman": Lowest leakage, widest peaks (quiet noise next to loud tones)
+ * - "rectangular": No windowing (sharpest peaks, most leakage)
+ */
+export type SpectrogramWindowFunction = "hann" | "hamming" | "blackman" | "rectangular";
+
+/**
+ * Vertical frequency axis
+ * - "linear": Evenly spaced Hz
+ * - "log": Octaves evenly spaced (more room for low frequencies)
+ * - "mel": Perceptual mel scale (common for speech)
+ */
+export type SpectrogramFrequencyScale = "linear" | "log" | "mel";
+
+/**
+ * Built-in spectrogram color maps (low to high energy)
+ */
+export type SpectrogramColorMap = "viridis" | "magma" | "grayscale";
+
+/**
+ * AudioSpectrogram appearance configuration
+ */
+export interface AudioSpectrogramAppearance {
+  /** Playhead color (CSS color value). Default: "#ef4444" (red-500) */
+  playheadColor?: string;
+  /** Playhead width (pixels). Default: 2 */
+  playheadWidth?: number;
+}
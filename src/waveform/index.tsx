@@ -1,6 +1,29 @@
-import { forwardRef, useEffect, useMemo, useRef, useState } from "react";
-import type { AudioWaveformAppearance } from "../types";
-import { decodeAudioBlob, getAudioData } from "./util-audio-decoder";
+import { forwardRef, useCallback, useEffect, useRef, useState } from "react";
+import { DEFAULT_MAX_ZOOM } from "../constants";
+import type {
+  AmplitudeScaleOptions,
+  AudioWaveformAppearance,
+  WaveformHoverInfo,
+  WaveformMarker,
+  WaveformPeakMode,
+  WaveformRegion,
+  WaveformRegionChange,
+  WaveformRegionOverlap,
+  WaveformSelection,
+} from "../types";
+import {
+  type AudioDecoderMode,
+  decodePeakPyramids,
+  getAudioData,
+  type WaveformChannelMode,
+} from "./util-audio-decoder";
+import {
+  type AudioFetchOptions,
+  acquireFetchedAudioForRender,
+  fetchAudioBlob,
+  getAudioFetchKey,
+} from "./util-audio-fetch";
+import type { PeakPyramid } from "./util-peak-pyramid";
 import { unwrapPromise } from "./util-suspense";
 import { WaveformRenderer, type WaveformRendererRef } from "./waveform-renderer";
 
@@ -8,15 +31,31 @@ import { WaveformRenderer, type WaveformRendererRef } from "./waveform-renderer"
 // AudioWaveform - Unified Component (with optional Suspense support)
 // ============================================================================
 
-export interface AudioWaveformProps extends React.CanvasHTMLAttributes<HTMLCanvasElement> {
-  /** Audio blob to visualize (provide either blob or peaks) */
+export interface AudioWaveformProps extends AmplitudeScaleOptions, React.CanvasHTMLAttributes<HTMLCanvasElement> {
+  /** Audio blob to visualize (provide either blob, src or peaks) */
   blob?: Blob | null;
-  /** Pre-computed peaks data (normalized 0-1 range, skips decoding when provided) */
-  peaks?: number[];
+  /** Audio URL to fetch and visualize (ignored when blob or peaks is provided) */
+  src?: string;
+  /** Request options for `src` (credentials, headers, Range chunking) */
+  fetchOptions?: AudioFetchOptions;
+  /** Pre-computed peaks data (normalized 0-1 range, skips decoding when provided; one array per lane for stacked channels) */
+  peaks?: number[] | number[][];
   /** Waveform appearance configuration (barColor, barWidth, playheadColor, etc.) */
   appearance?: AudioWaveformAppearance;
   /** Enable Suspense mode (requires Suspense boundary in parent) */
   suspense?: boolean;
+  /** How each bar summarizes its samples ("minmax" draws asymmetric positive/negative envelopes). Default: "average" */
+  peakMode?: WaveformPeakMode;
+  /** How multi-channel audio is drawn: first channel, averaged mix, or one stacked lane per channel. Default: "first" */
+  channels?: WaveformChannelMode;
+  /** Where peak extraction and WASM decoding run ("worker" keeps the UI responsive on long files). Default: "main" */
+  decoder?: AudioDecoderMode;
+  /**
+   * Callback with peak extraction progress (0-1), starting once `blob` is decoded to PCM
+   * With decoder="worker", progress is fine-grained and the partial waveform is painted as it fills in;
+   * on the main thread it is only reported between channel lanes
+   */
+  onDecodeProgress?: (fraction: number) => void;
   /** Current playback time in seconds (shows playhead) */
   currentTime?: number;
   /** Total audio duration in seconds (required for playhead positioning) */
@@ -29,42 +68,111 @@ export interface AudioWaveformProps extends React.CanvasHTMLAttributes<HTMLCanva
   onSeekDrag?: (time: number) => void;
   /** Callback when drag-to-seek ends (use to resume playback) */
   onSeekEnd?: (time: number) => void;
+  /** Selected time range in seconds (controlled, shows shaded overlay with draggable edge handles) */
+  selection?: WaveformSelection | null;
+  /** Callback when user drags a selection handle (or draws a new selection when `selection` is null) */
+  onSelectionChange?: (selection: WaveformSelection) => void;
+  /** Zoom level in pixels per second (omit to fit the whole duration to the width) */
+  zoom?: number;
+  /** Deepest wheel/pinch zoom in pixels per second. Default: 200 */
+  maxZoom?: number;
+  /** Callback when user zooms with ctrl/cmd + wheel, trackpad pinch or two-finger touch pinch (makes zoom interactive) */
+  onZoomChange?: (zoom: number) => void;
+  /** Page the view when currentTime moves the playhead out of view (paused after a manual scroll). Default: true */
+  followPlayhead?: boolean;
+  /** Labeled cue points (`{ id, time, label }`) and colored time spans (with `end`) drawn over the bars */
+  markers?: WaveformMarker[];
+  /** Callback when a marker line or label is clicked (clicks on markers don't seek) */
+  onMarkerClick?: (marker: WaveformMarker) => void;
+  /** Callback while a marker is dragged, with the moved marker (makes markers draggable) */
+  onMarkerDrag?: (marker: WaveformMarker) => void;
+  /** Callback when a marker drag ends, with the final moved marker */
+  onMarkerDragEnd?: (marker: WaveformMarker) => void;
+  /** Editable labeled regions (`{ id, start, end, label }`), drawn as shaded ranges with edge handles */
+  regions?: WaveformRegion[];
+  /**
+   * Callback with the next region list and what changed ("add" | "update" | "remove")
+   * Makes regions editable: drag edges to resize, drag the body to move, focus an edge with Tab and
+   * use arrow keys to adjust it or Delete to remove the region
+   */
+  onRegionsChange?: (regions: WaveformRegion[], change: WaveformRegionChange) => void;
+  /** "prevent" stops edges and moves at neighboring regions. Default: "allow" */
+  regionOverlap?: WaveformRegionOverlap;
+  /** Draw a new region by dragging on empty waveform (requires onRegionsChange; taps still seek). Default: false */
+  createRegionOnDrag?: boolean;
+  /** Callback when a region body is clicked or tapped */
+  onRegionClick?: (region: WaveformRegion) => void;
+  /** Draw a time ruler along the bottom edge; ticks adapt to the zoom level and follow scrolling. Default: false */
+  showTimeline?: boolean;
+  /** Show a cursor line under the pointer. Default: true when seek callbacks are provided */
+  showHoverCursor?: boolean;
+  /** Render a tooltip above the hover cursor, e.g. `({ formattedTime }) => formattedTime` */
+  renderHoverTooltip?: (info: WaveformHoverInfo) => React.ReactNode;
+  /** Callback with the time under the pointer, or null when the pointer leaves (for thumbnails or transcripts) */
+  onHover?: (time: number | null) => void;
 }
 
 export interface AudioWaveformRef {
   canvas: HTMLCanvasElement | null;
 }
 
-// SSR-safe: returns 500 on server, window.innerWidth on client
-const getInitialSampleCount = () => {
-  if (typeof window === "undefined") return 500;
-  return Math.max(500, Math.ceil(window.innerWidth));
-};
-
 export const AudioWaveform = forwardRef<AudioWaveformRef, AudioWaveformProps>(function AudioWaveform(
   {
     blob,
+    src,
+    fetchOptions,
     peaks: precomputedPeaks,
     appearance,
     suspense = false,
+    peakMode,
+    normalize,
+    scale,
+    dbFloor,
+    channels = "first",
+    decoder = "main",
+    onDecodeProgress,
     currentTime,
     duration,
     onSeek,
     onSeekStart,
     onSeekDrag,
     onSeekEnd,
+    selection,
+    onSelectionChange,
+    zoom,
+    maxZoom = DEFAULT_MAX_ZOOM,
+    onZoomChange,
+    followPlayhead,
+    markers,
+    onMarkerClick,
+    onMarkerDrag,
+    onMarkerDragEnd,
+    regions,
+    onRegionsChange,
+    regionOverlap,
+    createRegionOnDrag,
+    onRegionClick,
+    showTimeline,
+    showHoverCursor,
+    renderHoverTooltip,
+    onHover,
     ...props
   },
   ref
 ) {
-  const [decodedPeaks, setDecodedPeaks] = useState<number[] | null>(null);
+  const [decodedPeaks, setDecodedPeaks] = useState<PeakPyramid[] | null>(null);
+  const [fetchedBlob, setFetchedBlob] = useState<Blob | null>(null);
   const [error, setError] = useState<Error | null>(null);
   const [isMounted, setIsMounted] = useState(false);
-  const blobRef = useRef<Blob | null>(null);
   const rendererRef = useRef<WaveformRendererRef>(null);
-
-  // Sample count based on screen width for sharp rendering on high-DPI displays
-  const sampleCount = useMemo(() => getInitialSampleCount(), []);
+  // Latest progress callback (kept in a ref so a new inline callback doesn't restart decoding)
+  const onDecodeProgressRef = useRef(onDecodeProgress);
+  onDecodeProgressRef.current = onDecodeProgress;
+  // Stable so the shared Suspense decode registers this instance only once
+  const reportSuspenseProgress = useCallback((fraction: number) => onDecodeProgressRef.current?.(fraction), []);
+  // Latest fetch options (read when the request key changes, so an equal inline object doesn't refetch)
+  const fetchOptionsRef = useRef(fetchOptions);
+  fetchOptionsRef.current = fetchOptions;
 
   useEffect(() => {
     setIsMounted(true);
@@ -79,49 +187,121 @@ export const AudioWaveform = forwardRef<AudioWaveformRef, AudioWaveformProps>(fu
     }
   }, [ref]);
 
+  // Fetch only when neither pre-computed peaks nor a blob are provided
+  const shouldFetch = !precomputedPeaks && !blob && src;
+
+  // Request identity: a new `src` or different request options refetch, an equal inline object doesn't
+  const fetchKey = shouldFetch ? getAudioFetchKey(shouldFetch, fetchOptions) : null;
+
+  // Suspense mode: suspend until the URL is downloaded
+  // The lease taken during render is claimed on commit and released when the request changes or on unmount
+  const suspenseFetchRef = useRef<{ key: string; promise: Promise<Blob>; claim: () => () => void } | null>(null);
+  const suspenseFetchKey = suspense && isMounted ? fetchKey : null;
+  let suspenseBlob: Blob | null = null;
+  if (shouldFetch && suspenseFetchKey) {
+    if (suspenseFetchRef.current?.key !== suspenseFetchKey) {
+      suspenseFetchRef.current = {
+        key: suspenseFetchKey,
+        ...acquireFetchedAudioForRender(shouldFetch, fetchOptionsRef.current),
+      };
+    }
+    suspenseBlob = unwrapPromise(suspenseFetchRef.current.promise);
+  }
+
+  useEffect(() => {
+    const lease = suspenseFetchRef.current;
+    if (!suspenseFetchKey || lease?.key !== suspenseFetchKey) return;
+    return lease.claim();
+  }, [suspenseFetchKey]);
+
+  // Non-suspense mode: Fetch audio when the request changes (aborted on change/unmount)
+  useEffect(() => {
+    if (!fetchKey || !src || suspense) {
+      setFetchedBlob(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    setFetchedBlob(null);
+    setError(null);
+
+    fetchAudioBlob(src, fetchOptionsRef.current, controller.signal)
+      .then((data) => {
+        if (!controller.signal.aborted) {
+          setFetchedBlob(data);
+        }
+      })
+      .catch((err) => {
+        if (!controller.signal.aborted) {
+          setError(err instanceof Error ? err : new Error(err?.message || "Failed to fetch audio"));
+        }
+      });
+
+    return () => {
+      controller.abort();
+    };
+  }, [src, fetchKey, suspense]);
+
+  // Fetched audio goes through the same decode pipeline as the blob prop
+  const sourceBlob = blob ?? (suspense ? suspenseBlob : fetchedBlob);
+
   // Skip decoding when pre-computed peaks are provided
-  const shouldDecode = !precomputedPeaks && blob;
+  const shouldDecode = !precomputedPeaks && sourceBlob;
 
   // Suspense mode: Use React 19-style Promise unwrapping
-  const suspensePeaks = shouldDecode && suspense && isMounted ? unwrapPromise(getAudioData(blob, sampleCount)) : null;
+  // Decoded once into a peak pyramid; the renderer picks the level for its width and zoom
+  const suspensePeaks =
+    shouldDecode && suspense && isMounted
+      ? unwrapPromise(
+          getAudioData(sourceBlob, {
+            decoder,
+            channels,
+            onProgress: reportSuspenseProgress,
+          })
+        )
+      : null;
 
-  // Non-suspense mode: Decode audio when blob changes
+  // Non-suspense mode: Decode audio when blob changes (aborted on change/unmount)
   useEffect(() => {
     if (!shouldDecode || suspense) {
       // Reset state when using peaks prop or in suspense mode
       if (!shouldDecode) {
         setDecodedPeaks(null);
         setError(null);
-        blobRef.current = null;
       }
       return;
     }
 
-    // Skip if same blob
-    if (blobRef.current === blob) return;
-    blobRef.current = blob;
-
-    let cancelled = false;
+    const controller = new AbortController();
     setError(null);
 
-    decodeAudioBlob(blob, sampleCount)
+    decodePeakPyramids(sourceBlob, {
+      decoder,
+      channels,
+      signal: controller.signal,
+      onProgress: (fraction, partial) => {
+        if (controller.signal.aborted) return;
+        onDecodeProgressRef.current?.(fraction);
+        // Paint partial peaks while the rest is still being extracted
+        if (fraction < 1) setDecodedPeaks(partial);
+      },
+    })
       .then((data) => {
-        if (!cancelled) {
+        if (!controller.signal.aborted) {
           setDecodedPeaks(data);
         }
       })
       .catch((err) => {
-        if (!cancelled) {
+        if (!controller.signal.aborted) {
           setError(err instanceof Error ? err : new Error(err?.message || "Failed to decode audio"));
         }
       });
 
+    // Stop a running extraction worker when the blob or options change
     return () => {
-      cancelled = true;
-      // Reset blobRef so the effect can re-run after React Strict Mode double-invoke
-      blobRef.current = null;
+      controller.abort();
     };
-  }, [blob, sampleCount, suspense, shouldDecode]);
+  }, [sourceBlob, decoder, channels, suspense, shouldDecode]);
 
   if (!suspense && error) {
     throw error;
@@ -134,6 +314,10 @@ export const AudioWaveform = forwardRef<AudioWaveformRef, AudioWaveformProps>(fu
     <WaveformRenderer
       ref={rendererRef}
       peaks={finalPeaks}
+      peakMode={peakMode}
+      normalize={normalize}
+      scale={scale}
+      dbFloor={dbFloor}
       appearance={appearance}
       currentTime={currentTime}
       duration={duration}
@@ -141,6 +325,25 @@ export const AudioWaveform = forwardRef<AudioWaveformRef, AudioWaveformProps>(fu
       onSeekStart={onSeekStart}
       onSeekDrag={onSeekDrag}
       onSeekEnd={onSeekEnd}
+      selection={selection}
+      onSelectionChange={onSelectionChange}
+      zoom={zoom}
+      maxZoom={maxZoom}
+      onZoomChange={onZoomChange}
+      followPlayhead={followPlayhead}
+      markers={markers}
+      onMarkerClick={onMarkerClick}
+      onMarkerDrag={onMarkerDrag}
+      onMarkerDragEnd={onMarkerDragEnd}
+      regions={regions}
+      onRegionsChange={onRegionsChange}
+      regionOverlap={regionOverlap}
+      createRegionOnDrag={createRegionOnDrag}
+      onRegionClick={onRegionClick}
+      showTimeline={showTimeline}
+      showHoverCursor={showHoverCursor}
+      renderHoverTooltip={renderHoverTooltip}
+      onHover={onHover}
       {...props}
     />
   );
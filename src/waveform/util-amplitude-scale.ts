@@ -0,0 +1,49 @@
+// ============================================================================
+// Amplitude Scale - Maps raw amplitudes to bar heights
+// Shared by the decoder, WaveformRenderer and the live recorders
+// ============================================================================
+
+import { DEFAULT_DB_FLOOR } from "../constants";
+import type { AmplitudeScaleOptions, WaveformNormalize } from "../types";
+
+/**
+ * Reference amplitude that fills the full bar height
+ */
+function getReference(normalize: WaveformNormalize, loudest: number): number {
+  if (normalize === "per-file") return loudest;
+  if (normalize === "none") return 1;
+  return normalize;
+}
+
+/**
+ * Create a function mapping an amplitude magnitude (0-1) to a bar height fraction (0-1)
+ *
+ * @param options - Normalization and scale options
+ * @param loudest - Loudest amplitude of the file (used by "per-file" normalization)
+ * @param defaultNormalize - Normalization when `options.normalize` is omitted
+ *
+ * @example
+ * ```ts
+ * const toHeight = createAmplitudeScale({ scale: "db" }, maxAmplitude);
+ * const barHeight = toHeight(peak) * height;
+ * ```
+ */
+export function createAmplitudeScale(
+  options: AmplitudeScaleOptions,
+  loudest: number,
+  defaultNormalize: WaveformNormalize = "per-file"
+): (amplitude: number) => number {
+  const reference = getReference(options.normalize ?? defaultNormalize, loudest);
+  if (!(reference > 0)) return () => 0;
+
+  if (options.scale === "db") {
+    const floor = Math.min(-1, options.dbFloor ?? DEFAULT_DB_FLOOR);
+    return (amplitude) => {
+      if (amplitude <= 0) return 0;
+      const db = 20 * Math.log10(amplitude / reference);
+      return Math.max(0, Math.min(1, (db - floor) / -floor));
+    };
+  }
+
+  return (amplitude) => Math.min(1, amplitude / reference);
+}
@@ -3,13 +3,91 @@
 // Uses native Web Audio API first, falls back to WASM decoder on failure
 // ============================================================================
 
+import type { AmplitudeScaleOptions, WaveformPeakMode, WaveformSelection } from "../types";
+import { createAmplitudeScale } from "./util-amplitude-scale";
+import { buildPeakPyramidInWorker, isWorkerSupported } from "./util-decoder-worker";
+import { buildPeakPyramid, type PeakProgressCallback, type PeakPyramid } from "./util-peak-pyramid";
+import { encodeWav, resampleChannel } from "./util-wav-encoder";
+
 // Dynamic import for SSR safety - WASM loaded only when needed in browser
 type MPEGDecoderType = import("mpg123-decoder").MPEGDecoder;
+type MPEGDecoderWebWorkerType = import("mpg123-decoder").MPEGDecoderWebWorker;
+
+/**
+ * Where CPU-heavy decoding work runs
+ * - "main": On the main thread (simplest, blocks UI on long files)
+ * - "worker": Peak extraction and WASM decoding in Web Workers (falls back to main when unavailable)
+ */
+export type AudioDecoderMode = "worker" | "main";
+
+/**
+ * How multi-channel audio becomes waveform lanes
+ * - "first": First channel only
+ * - "mix": Average of all channels in a single lane
+ * - "split": One stacked lane per channel
+ */
+export type WaveformChannelMode = "mix" | "first" | "split";
+
+/**
+ * Progress callback for lane extraction
+ * `partial` holds one coarse pyramid per lane (lanes not reached yet are empty)
+ */
+export type DecodeProgressCallback = (fraction: number, partial: PeakPyramid[]) => void;
+
+export interface DecodePeakPyramidOptions {
+  /** Where peak extraction and WASM decoding run. Default: "main" */
+  decoder?: AudioDecoderMode;
+  /** Which channels become lanes. Default: "first" */
+  channels?: WaveformChannelMode;
+  /**
+   * Peak extraction progress (0-1), reported once decoding to PCM is done (decodeAudioData has no progress)
+   * With decoder="worker" it is fine-grained and carries coarse partial pyramids for progressive rendering;
+   * on the main thread it is only reported between lanes, with finished lanes and empty pending ones
+   */
+  onProgress?: DecodeProgressCallback;
+  /** Stops the decode between steps and terminates a running extraction worker (rejects with an AbortError) */
+  signal?: AbortSignal;
+}
+
+/**
+ * Decoded PCM audio (all channels)
+ */
+export interface DecodedAudio {
+  /** Float32 samples per channel (-1 to 1 range) */
+  channelData: Float32Array[];
+  /** Sample rate in Hz */
+  sampleRate: number;
+}
+
+/**
+ * A blob with an optional time range to take from it (used by concatAudioBlobs)
+ */
+export interface AudioSegment {
+  /** Source audio blob */
+  blob: Blob;
+  /** Time range in seconds (whole blob when omitted) */
+  range?: WaveformSelection;
+}
+
+/**
+ * Options for flat peak extraction (0-1 range peaks, e.g. for the `peaks` prop)
+ */
+export interface PeakExtractionOptions extends AmplitudeScaleOptions {
+  /** How each peak summarizes its block (flat peaks are symmetric, so "minmax" is not available). Default: "average" */
+  peakMode?: Exclude<WaveformPeakMode, "minmax">;
+}
 
 /**
  * Extract peaks from Float32Array channel data
+ * Shared with the Node entry so precomputed peaks match browser-decoded ones
  */
-function extractPeaksFromChannelData(channelData: Float32Array, sampleCount: number): number[] {
+export function extractPeaksFromChannelData(
+  channelData: Float32Array,
+  sampleCount: number,
+  options: PeakExtractionOptions = {}
+): number[] {
+  const { peakMode = "average" } = options;
+
   if (channelData.length === 0 || sampleCount <= 0) {
     return [];
   }
@@ -21,16 +99,41 @@ function extractPeaksFromChannelData(channelData: Float32Array, sampleCount: num
   for (let i = 0; i < normalizedSampleCount; i++) {
     const start = i * blockSize;
     let sum = 0;
+    let peak = 0;
     for (let j = 0; j < blockSize; j++) {
-      sum += Math.abs(channelData[start + j] || 0);
+      const sample = channelData[start + j] || 0;
+      sum += peakMode === "rms" ? sample * sample : Math.abs(sample);
+      peak = Math.max(peak, Math.abs(sample));
+    }
+    peaks.push(peakMode === "peak" ? peak : peakMode === "rms" ? Math.sqrt(sum / blockSize) : sum / blockSize);
+  }
+
+  // Map to 0-1 range (per-file normalization by default)
+  const maxPeak = peaks.reduce((max, peak) => Math.max(max, peak), 0);
+  return peaks.map(createAmplitudeScale(options, maxPeak));
+}
+
+/**
+ * Average all channels into one
+ */
+function mixChannels(channelData: Float32Array[]): Float32Array {
+  const length = channelData.reduce((max, channel) => Math.max(max, channel.length), 0);
+  const mixed = new Float32Array(length);
+  for (const channel of channelData) {
+    for (let i = 0; i < channel.length; i++) {
+      mixed[i] += channel[i] / channelData.length;
     }
-    peaks.push(sum / blockSize);
   }
+  return mixed;
+}
 
-  // Normalize to 0-1 range
-  if (peaks.length === 0) return [];
-  const maxPeak = Math.max(...peaks);
-  return maxPeak > 0 ? peaks.map((p) => p / maxPeak) : peaks;
+/**
+ * Pick the channel data drawn as waveform lanes
+ */
+export function selectChannels(channelData: Float32Array[], mode: WaveformChannelMode): Float32Array[] {
+  if (mode === "split") return channelData;
+  if (mode === "mix" && channelData.length > 1) return [mixChannels(channelData)];
+  return channelData.slice(0, 1);
 }
 
 /**
@@ -43,34 +146,40 @@ async function decodeWithNativeAPI(arrayBuffer: ArrayBuffer): Promise<AudioBuffe
 
 /**
  * Decode MP3 using WASM decoder (mpg123)
- * Used as fallback when native API fails
- * Only runs in browser environment (SSR safe)
+ * Used as fallback when native API fails, and directly by the Node entry
+ * Loaded lazily, so importing this module never pulls in the WASM (SSR safe)
  */
-async function decodeWithWASM(arrayBuffer: ArrayBuffer): Promise<Float32Array> {
-  const { MPEGDecoder } = await import("mpg123-decoder");
-  const decoder = new MPEGDecoder() as MPEGDecoderType;
-  await decoder.ready;
+export async function decodeWithWASM(arrayBuffer: ArrayBuffer, useWorker = false): Promise<DecodedAudio> {
+  const mpg123 = await import("mpg123-decoder");
+  let result: Awaited<ReturnType<MPEGDecoderWebWorkerType["decode"]>>;
 
-  const result = decoder.decode(new Uint8Array(arrayBuffer));
-
-  // Use first channel (works for both stereo and mono)
-  const channelData = result.channelData[0];
-  if (!channelData) {
+  if (useWorker) {
+    // Same decoder running in its own worker (bundled by mpg123-decoder)
+    const decoder = new mpg123.MPEGDecoderWebWorker() as MPEGDecoderWebWorkerType;
+    await decoder.ready;
+    try {
+      result = await decoder.decode(new Uint8Array(arrayBuffer));
+    } finally {
+      await decoder.free();
+    }
+  } else {
+    const decoder = new mpg123.MPEGDecoder() as MPEGDecoderType;
+    await decoder.ready;
+    result = decoder.decode(new Uint8Array(arrayBuffer));
     decoder.free();
-    throw new Error("WASM decoder returned no channel data");
   }
 
-  decoder.free();
+  if (!result.channelData[0]) {
+    throw new Error("WASM decoder returned no channel data");
+  }
 
-  return channelData;
+  return { channelData: result.channelData, sampleRate: result.sampleRate };
 }
 
-export async function decodeAudioBlob(blob: Blob, sampleCount: number): Promise<number[]> {
-  // SSR safe: return empty array in non-browser environment
-  if (typeof window === "undefined") {
-    return [];
-  }
-
+/**
+ * Decode a blob into PCM channel data (native API first, WASM fallback for MP3)
+ */
+async function decodeBlobToChannels(blob: Blob, useWorker = false): Promise<DecodedAudio> {
   const arrayBuffer = await blob.arrayBuffer();
 
   if (arrayBuffer.byteLength === 0) {
@@ -80,8 +189,11 @@ export async function decodeAudioBlob(blob: Blob, sampleCount: number): Promise<
   // Try native Web Audio API first
   try {
     const audioBuffer = await decodeWithNativeAPI(arrayBuffer);
-    const channelData = audioBuffer.getChannelData(0);
-    return extractPeaksFromChannelData(channelData, sampleCount);
+    const channelData: Float32Array[] = [];
+    for (let ch = 0; ch < audioBuffer.numberOfChannels; ch++) {
+      channelData.push(audioBuffer.getChannelData(ch));
+    }
+    return { channelData, sampleRate: audioBuffer.sampleRate };
   } catch {
     // Fall through to WASM fallback
   }
@@ -91,8 +203,7 @@ export async function decodeAudioBlob(blob: Blob, sampleCount: number): Promise<
     if (blob.type && !/mp3|mpeg/i.test(blob.type)) {
       throw new Error("WASM decoder only supports MP3 audio");
     }
-    const channelData = await decodeWithWASM(arrayBuffer);
-    return extractPeaksFromChannelData(channelData, sampleCount);
+    return await decodeWithWASM(arrayBuffer, useWorker);
   } catch {
     throw new Error(
       `Unable to decode audio data (type: ${blob.type}, size: ${blob.size} bytes). ` +
@@ -103,16 +214,231 @@ export async function decodeAudioBlob(blob: Blob, sampleCount: number): Promise<
   }
 }
 
+export async function decodeAudioBlob(
+  blob: Blob,
+  sampleCount: number,
+  options: PeakExtractionOptions & { channels?: Exclude<WaveformChannelMode, "split"> } = {}
+): Promise<number[]> {
+  // SSR safe: return empty array in non-browser environment
+  if (typeof window === "undefined") {
+    return [];
+  }
+
+  const { channelData } = await decodeBlobToChannels(blob);
+  return extractPeaksFromChannelData(selectChannels(channelData, options.channels ?? "first")[0], sampleCount, options);
+}
+
+/**
+ * Decode a blob into mono PCM for sample-level analysis (used by AudioSpectrogram)
+ * Channels are reduced like waveform lanes: first channel or averaged mix
+ */
+export async function decodeAudioSamples(
+  blob: Blob,
+  options: { decoder?: AudioDecoderMode; channels?: Exclude<WaveformChannelMode, "split"> } = {}
+): Promise<{ samples: Float32Array; sampleRate: number }> {
+  // SSR safe: no samples in non-browser environment
+  if (typeof window === "undefined") {
+    return { samples: new Float32Array(0), sampleRate: 44100 };
+  }
+
+  const useWorker = options.decoder === "worker" && isWorkerSupported();
+  const { channelData, sampleRate } = await decodeBlobToChannels(blob, useWorker);
+  return { samples: selectChannels(channelData, options.channels ?? "first")[0], sampleRate };
+}
+
+/**
+ * Decode a blob into one multi-resolution min/max peak pyramid per lane
+ * Resolution is independent of canvas width, so resizes and zooming never re-decode
+ */
+export async function decodePeakPyramids(blob: Blob, options: DecodePeakPyramidOptions = {}): Promise<PeakPyramid[]> {
+  // SSR safe: no lanes in non-browser environment
+  if (typeof window === "undefined") {
+    return [];
+  }
+
+  const { decoder = "main", channels = "first", onProgress, signal } = options;
+  const useWorker = decoder === "worker" && isWorkerSupported();
+
+  // Native decodeAudioData is already off-thread; the worker takes the WASM decode and peak extraction
+  const { channelData } = await decodeBlobToChannels(blob, useWorker);
+  signal?.throwIfAborted();
+  const lanes = selectChannels(channelData, channels);
+  const pyramids: PeakPyramid[] = [];
+
+  // Lanes are extracted one after another; progress spans all of them
+  const reportProgress = (fraction: number, partial: PeakPyramid[]) => {
+    const pending = lanes.slice(partial.length).map(() => ({ levels: [], maxAmplitude: 0 }));
+    onProgress?.(fraction, [...partial, ...pending]);
+  };
+
+  for (let index = 0; index < lanes.length; index++) {
+    signal?.throwIfAborted();
+    if (useWorker) {
+      const laneProgress: PeakProgressCallback | undefined =
+        onProgress &&
+        ((fraction, partial) => reportProgress((index + fraction) / lanes.length, [...pyramids, partial]));
+      pyramids.push(await buildPeakPyramidInWorker(lanes[index], laneProgress, signal));
+    } else {
+      // The main thread can't paint until extraction returns, so skip building preview pyramids
+      reportProgress(index / lanes.length, pyramids);
+      pyramids.push(buildPeakPyramid(lanes[index]));
+    }
+  }
+
+  if (!useWorker) reportProgress(1, pyramids);
+  return pyramids;
+}
+
+interface AudioDataCacheEntry {
+  promise: Promise<PeakPyramid[]>;
+  /** Progress listeners of every caller waiting on the decode */
+  listeners: Set<DecodeProgressCallback>;
+  settled: boolean;
+}
+
 // Promise cache for Suspense support (automatic garbage collection)
-const audioDataCache = new WeakMap<Blob, Promise<number[]>>();
+// One set of pyramids per blob, decoder and channel mode serves every width and zoom level
+const audioDataCache = new WeakMap<Blob, Map<string, AudioDataCacheEntry>>();
+
+/**
+ * Cached decodePeakPyramids for Suspense
+ * `onProgress` is added to the pending decode's listeners, so pass a stable callback to avoid duplicates
+ */
+export function getAudioData(blob: Blob, options: DecodePeakPyramidOptions = {}): Promise<PeakPyramid[]> {
+  const { decoder = "main", channels = "first", onProgress } = options;
+  const key = `${decoder}:${channels}`;
+  let cache = audioDataCache.get(blob);
+  if (!cache) {
+    cache = new Map();
+    audioDataCache.set(blob, cache);
+  }
+
+  let entry = cache.get(key);
+
+  if (!entry) {
+    const listeners = new Set<DecodeProgressCallback>();
+    const promise = decodePeakPyramids(blob, {
+      decoder,
+      channels,
+      onProgress: (fraction, partial) => {
+        for (const listener of listeners) listener(fraction, partial);
+      },
+    });
+    const created: AudioDataCacheEntry = { promise, listeners, settled: false };
+    const settle = () => {
+      created.settled = true;
+      listeners.clear();
+    };
+    promise.then(settle, settle);
+    cache.set(key, created);
+    entry = created;
+  }
+
+  // Later callers join the pending decode's progress instead of the first caller's callback winning
+  if (onProgress && !entry.settled) entry.listeners.add(onProgress);
+  return entry.promise;
+}
+
+// ============================================================================
+// Audio Editing Utilities
+// Decode → slice PCM → re-encode as 16-bit WAV (fully client-side)
+// ============================================================================
+
+/**
+ * Slice channel data to a time range (clamped to audio bounds, start/end order-insensitive)
+ */
+function sliceChannels(audio: DecodedAudio, range: WaveformSelection): Float32Array[] {
+  const length = audio.channelData[0]?.length ?? 0;
+  const toSample = (time: number) => Math.max(0, Math.min(length, Math.round(time * audio.sampleRate)));
+  const start = toSample(Math.min(range.start, range.end));
+  const end = toSample(Math.max(range.start, range.end));
+  return audio.channelData.map((channel) => channel.subarray(start, end));
+}
+
+/**
+ * Join channel data pieces end-to-end
+ * Mono pieces are duplicated into missing channels so mixed layouts line up
+ */
+function joinChannels(pieces: Float32Array[][]): Float32Array[] {
+  const numChannels = pieces.reduce((max, piece) => Math.max(max, piece.length), 0);
+  const totalLength = pieces.reduce((sum, piece) => sum + (piece[0]?.length ?? 0), 0);
+
+  const output: Float32Array[] = [];
+  for (let ch = 0; ch < numChannels; ch++) {
+    const channel = new Float32Array(totalLength);
+    let offset = 0;
+    for (const piece of pieces) {
+      const source = piece[ch] ?? piece[0];
+      if (source) channel.set(source, offset);
+      offset += piece[0]?.length ?? 0;
+    }
+    output.push(channel);
+  }
+  return output;
+}
+
+/**
+ * Keep only the given time range of an audio blob
+ *
+ * @param blob - Source audio (any format the decoder supports)
+ * @param range - Time range in seconds to keep
+ * @returns New 16-bit PCM WAV blob
+ *
+ * @example
+ * ```ts
+ * const trimmed = await trimAudioBlob(recordingBlob, selection);
+ * ```
+ */
+export async function trimAudioBlob(blob: Blob, range: WaveformSelection): Promise<Blob> {
+  const audio = await decodeBlobToChannels(blob);
+  return encodeWav(sliceChannels(audio, range), audio.sampleRate);
+}
 
-export function getAudioData(blob: Blob, sampleCount: number): Promise<number[]> {
-  let promise = audioDataCache.get(blob);
+/**
+ * Remove a time range from an audio blob, joining the audio before and after it
+ *
+ * @param blob - Source audio (any format the decoder supports)
+ * @param range - Time range in seconds to cut out
+ * @returns New 16-bit PCM WAV blob
+ */
+export async function cutAudioBlob(blob: Blob, range: WaveformSelection): Promise<Blob> {
+  const audio = await decodeBlobToChannels(blob);
+  const cutStart = Math.min(range.start, range.end);
+  const cutEnd = Math.max(range.start, range.end);
+  const before = sliceChannels(audio, { start: 0, end: cutStart });
+  const after = sliceChannels(audio, { start: cutEnd, end: Number.POSITIVE_INFINITY });
+  return encodeWav(joinChannels([before, after]), audio.sampleRate);
+}
 
-  if (!promise) {
-    promise = decodeAudioBlob(blob, sampleCount);
-    audioDataCache.set(blob, promise);
+/**
+ * Concatenate audio blobs (or ranges of them) in order
+ * Output uses the first segment's sample rate; other segments are resampled to match
+ *
+ * @param segments - Blobs or `{ blob, range }` segments to join
+ * @returns New 16-bit PCM WAV blob
+ *
+ * @example
+ * ```ts
+ * const joined = await concatAudioBlobs([intro, { blob: recordingBlob, range: { start: 2, end: 10 } }]);
+ * ```
+ */
+export async function concatAudioBlobs(segments: Array<Blob | AudioSegment>): Promise<Blob> {
+  if (segments.length === 0) {
+    throw new Error("concatAudioBlobs requires at least one segment");
   }
 
-  return promise;
+  const decoded = await Promise.all(
+    segments.map(async (segment) => {
+      const { blob, range } = segment instanceof Blob ? { blob: segment, range: undefined } : segment;
+      const audio = await decodeBlobToChannels(blob);
+      return { audio, channelData: range ? sliceChannels(audio, range) : audio.channelData };
+    })
+  );
+
+  const sampleRate = decoded[0].audio.sampleRate;
+  const pieces = decoded.map(({ audio, channelData }) =>
+    channelData.map((channel) => resampleChannel(channel, audio.sampleRate, sampleRate))
+  );
+
+  return encodeWav(joinChannels(pieces), sampleRate);
 }
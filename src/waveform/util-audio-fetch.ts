@@ -0,0 +1,220 @@
+// ============================================================================
+// Audio Fetch Utilities
+// Loads audio from a URL into a Blob for the decode pipeline
+// ============================================================================
+
+/**
+ * Request options for loading audio from `src`
+ */
+export interface AudioFetchOptions {
+  /** Cookie/credential mode (e.g. "include" for cross-origin authenticated audio) */
+  credentials?: RequestCredentials;
+  /** Extra request headers (e.g. Authorization) */
+  headers?: HeadersInit;
+  /** CORS mode */
+  mode?: RequestMode;
+  /** HTTP cache mode */
+  cache?: RequestCache;
+  /**
+   * Download in byte-range chunks of this size using Range requests
+   * Falls back to a single download when the server ignores Range
+   */
+  rangeChunkSize?: number;
+}
+
+/**
+ * Parse total size from a Content-Range header ("bytes 0-1023/5000"), null when unknown ("*")
+ */
+function parseContentRangeTotal(contentRange: string | null): number | null {
+  const match = contentRange?.match(/\/(\d+)\s*$/);
+  return match ? Number(match[1]) : null;
+}
+
+function assertOk(response: Response, src: string) {
+  if (!response.ok) {
+    throw new Error(`Failed to fetch audio from ${src} (status: ${response.status} ${response.statusText})`);
+  }
+}
+
+/**
+ * Download with sequential Range requests, stitching chunks into one Blob
+ */
+async function fetchInRanges(src: string, init: RequestInit, chunkSize: number, signal?: AbortSignal): Promise<Blob> {
+  const parts: ArrayBuffer[] = [];
+  let type = "";
+  let start = 0;
+  let total: number | null = null;
+
+  while (total === null || start < total) {
+    const headers = new Headers(init.headers);
+    headers.set("Range", `bytes=${start}-${start + chunkSize - 1}`);
+    const response = await fetch(src, { ...init, headers, signal });
+    assertOk(response, src);
+
+    // Server ignored Range and sent the whole file
+    if (response.status !== 206) {
+      return response.blob();
+    }
+
+    type ||= response.headers.get("Content-Type") ?? "";
+    total = parseContentRangeTotal(response.headers.get("Content-Range"));
+
+    const chunk = await response.arrayBuffer();
+    parts.push(chunk);
+    start += chunk.byteLength;
+
+    // Unknown total: a short chunk marks the end
+    if (chunk.byteLength < chunkSize && total === null) break;
+    if (chunk.byteLength === 0) break;
+  }
+
+  return new Blob(parts, { type });
+}
+
+/**
+ * Fetch audio from a URL as a Blob
+ *
+ * @param src - Audio URL
+ * @param options - Request options (credentials, headers, Range chunking)
+ * @param signal - Abort signal (rejects with AbortError when aborted)
+ */
+export async function fetchAudioBlob(
+  src: string,
+  options: AudioFetchOptions = {},
+  signal?: AbortSignal
+): Promise<Blob> {
+  const { rangeChunkSize, ...init } = options;
+
+  if (rangeChunkSize && rangeChunkSize > 0) {
+    return fetchInRanges(src, init, rangeChunkSize, signal);
+  }
+
+  const response = await fetch(src, { ...init, signal });
+  assertOk(response, src);
+  return response.blob();
+}
+
+// ============================================================================
+// Suspense Fetch Cache
+// Shared downloads keyed by URL + request options, released by their consumers
+// ============================================================================
+
+// Finished downloads without consumers kept for remounts (least recently used are dropped first)
+const MAX_UNUSED_FETCHES = 4;
+
+// How long a render-time lease waits, once its download settles, for the component to commit and claim it
+const UNCLAIMED_LEASE_MS = 1000;
+
+interface AudioFetchEntry {
+  promise: Promise<Blob>;
+  controller: AbortController;
+  consumers: number;
+  settled: boolean;
+}
+
+// Insertion order doubles as recency order (entries are re-inserted when acquired)
+const audioFetchCache = new Map<string, AudioFetchEntry>();
+
+/**
+ * Cache key for a request: URL plus options (headers normalized, so equal options in new objects match)
+ */
+export function getAudioFetchKey(src: string, options: AudioFetchOptions = {}): string {
+  const { headers, ...init } = options;
+  const initEntries = Object.entries(init)
+    .filter(([, value]) => value !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b));
+  const headerEntries = headers ? Array.from(new Headers(headers).entries()) : [];
+  return JSON.stringify([src, initEntries, headerEntries]);
+}
+
+function evictUnusedFetches() {
+  let unused = 0;
+  for (const [key, entry] of Array.from(audioFetchCache).reverse()) {
+    if (entry.consumers > 0 || !entry.settled) continue;
+    unused += 1;
+    if (unused > MAX_UNUSED_FETCHES) audioFetchCache.delete(key);
+  }
+}
+
+/**
+ * Shared download for Suspense: one request per URL + options while any consumer holds it
+ * `release` once the result is no longer needed; the last release aborts a pending request,
+ * finished ones stay cached for remounts until evicted. Failed requests are dropped so they can be retried.
+ */
+export function acquireFetchedAudio(
+  src: string,
+  options?: AudioFetchOptions
+): { promise: Promise<Blob>; release: () => void } {
+  const key = getAudioFetchKey(src, options);
+  let entry = audioFetchCache.get(key);
+
+  if (entry) {
+    audioFetchCache.delete(key);
+  } else {
+    const controller = new AbortController();
+    const created: AudioFetchEntry = {
+      promise: fetchAudioBlob(src, options, controller.signal),
+      controller,
+      consumers: 0,
+      settled: false,
+    };
+    created.promise.then(
+      () => {
+        created.settled = true;
+        evictUnusedFetches();
+      },
+      () => {
+        if (audioFetchCache.get(key) === created) audioFetchCache.delete(key);
+      }
+    );
+    entry = created;
+  }
+
+  const acquired = entry;
+  acquired.consumers += 1;
+  audioFetchCache.set(key, acquired);
+
+  let released = false;
+  return {
+    promise: acquired.promise,
+    release: () => {
+      if (released) return;
+      released = true;
+      acquired.consumers -= 1;
+      if (acquired.consumers > 0) return;
+      if (!acquired.settled) {
+        acquired.controller.abort();
+        if (audioFetchCache.get(key) === acquired) audioFetchCache.delete(key);
+      }
+      evictUnusedFetches();
+    },
+  };
+}
+
+/**
+ * acquireFetchedAudio for use during render
+ * Renders can be thrown away (Strict Mode, concurrent rendering), so the lease releases itself shortly after the
+ * download settles unless the committed component `claim`s it from an effect. `claim` returns the release function.
+ * While the download is pending, the suspended render holds the lease so the request isn't aborted under it.
+ */
+export function acquireFetchedAudioForRender(
+  src: string,
+  options?: AudioFetchOptions
+): { promise: Promise<Blob>; claim: () => () => void } {
+  const { promise, release } = acquireFetchedAudio(src, options);
+  let claimed = false;
+  const releaseUnclaimed = () => {
+    setTimeout(() => {
+      if (!claimed) release();
+    }, UNCLAIMED_LEASE_MS);
+  };
+  promise.then(releaseUnclaimed, releaseUnclaimed);
+
+  return {
+    promise,
+    claim: () => {
+      claimed = true;
+      return release;
+    },
+  };
+}
@@ -0,0 +1,92 @@
+// ============================================================================
+// Decoder Worker - Off-main-thread peak pyramid extraction
+// Inlined via Blob URL so consumers need no bundler worker setup
+// ============================================================================
+
+import {
+  BASE_SAMPLES_PER_PEAK,
+  PEAK_PYRAMID_SOURCE,
+  type PeakProgressCallback,
+  type PeakPyramid,
+  PREVIEW_PEAKS,
+} from "./util-peak-pyramid";
+
+type PeakWorkerMessage =
+  | { type: "progress"; fraction: number; partial: PeakPyramid }
+  | { type: "done"; pyramid: PeakPyramid };
+
+/**
+ * Worker script as plain source text, built around the shared PEAK_PYRAMID_SOURCE
+ * Receives channel data, posts "progress" messages with coarse previews, then "done" with transferred levels
+ * The final progress tick is left to the main thread, which reports the transferred pyramid instead of a copy
+ */
+export const PEAK_WORKER_SOURCE = `${PEAK_PYRAMID_SOURCE}
+self.onmessage = (event) => {
+  const pyramid = computePeakPyramid(event.data, ${BASE_SAMPLES_PER_PEAK}, ${PREVIEW_PEAKS}, (fraction, partial) => {
+    if (fraction < 1) self.postMessage({ type: "progress", fraction, partial });
+  });
+  const transfer = [];
+  for (const level of pyramid.levels) {
+    transfer.push(level.min.buffer, level.max.buffer, level.mean.buffer, level.meanSquare.buffer);
+  }
+  self.postMessage({ type: "done", pyramid }, transfer);
+};
+`;
+
+/**
+ * Whether workers can be spawned (false on server and in test environments without Worker)
+ */
+export function isWorkerSupported(): boolean {
+  return typeof Worker !== "undefined" && typeof URL !== "undefined" && typeof URL.createObjectURL === "function";
+}
+
+/**
+ * Build a peak pyramid in a dedicated worker (terminated when done or aborted)
+ * Channel data is copied to the worker; the resulting levels are transferred back without copying
+ * Rejects with an AbortError when `signal` aborts
+ */
+export function buildPeakPyramidInWorker(
+  channelData: Float32Array,
+  onProgress?: PeakProgressCallback,
+  signal?: AbortSignal
+): Promise<PeakPyramid> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const workerUrl = URL.createObjectURL(new Blob([PEAK_WORKER_SOURCE], { type: "application/javascript" }));
+    const worker = new Worker(workerUrl);
+
+    const onAbort = () => {
+      cleanup();
+      reject(signal?.reason);
+    };
+
+    const cleanup = () => {
+      worker.terminate();
+      URL.revokeObjectURL(workerUrl);
+      signal?.removeEventListener("abort", onAbort);
+    };
+
+    worker.onmessage = (event: MessageEvent<PeakWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === "progress") {
+        onProgress?.(message.fraction, message.partial);
+        return;
+      }
+      cleanup();
+      onProgress?.(1, message.pyramid);
+      resolve(message.pyramid);
+    };
+
+    worker.onerror = (event) => {
+      cleanup();
+      reject(new Error(`Peak extraction worker failed: ${event.message || "unknown error"}`));
+    };
+
+    signal?.addEventListener("abort", onAbort);
+    worker.postMessage(channelData);
+  });
+}
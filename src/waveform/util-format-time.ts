@@ -0,0 +1,27 @@
+/**
+ * Format seconds as "m:ss" (or "h:mm:ss" for an hour or more)
+ * Non-finite and negative values format as "0:00"
+ */
+export function formatTime(seconds: number): string {
+  const total = Number.isFinite(seconds) ? Math.max(0, Math.floor(seconds)) : 0;
+  const hours = Math.floor(total / 3600);
+  const mins = Math.floor((total % 3600) / 60);
+  const secs = (total % 60).toString().padStart(2, "0");
+
+  if (hours > 0) {
+    return `${hours}:${mins.toString().padStart(2, "0")}:${secs}`;
+  }
+  return `${mins}:${secs}`;
+}
+
+/**
+ * Format seconds for screen readers (aria-valuetext): "1 minute 30 seconds"
+ */
+export function formatTimeForScreen(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  if (mins > 0) {
+    return `${mins} minute${mins > 1 ? "s" : ""} ${secs} second${secs !== 1 ? "s" : ""}`;
+  }
+  return `${secs} second${secs !== 1 ? "s" : ""}`;
+}
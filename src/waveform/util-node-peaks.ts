@@ -0,0 +1,107 @@
+// ============================================================================
+// Node Peak Generation
+// Decodes WAV/MP3 bytes without Web Audio so peaks can be precomputed server-side
+// ============================================================================
+
+import type { WaveformPeaksData } from "../types";
+import {
+  type DecodedAudio,
+  decodeWithWASM,
+  extractPeaksFromChannelData,
+  type PeakExtractionOptions,
+  selectChannels,
+  type WaveformChannelMode,
+} from "./util-audio-decoder";
+import { decodeWav, isWav } from "./util-wav-decoder";
+
+// Enough resolution for full-width waveforms; AudioWaveform downsamples to its width
+const DEFAULT_PEAKS_SAMPLE_COUNT = 2000;
+
+/**
+ * Encoded audio bytes (Node Buffer, Uint8Array or ArrayBuffer)
+ */
+export type AudioInput = Uint8Array | ArrayBuffer;
+
+export interface GeneratePeaksOptions extends PeakExtractionOptions {
+  /** Number of peaks to extract. Default: 2000 */
+  sampleCount?: number;
+  /** Which channel the peaks follow: first channel or averaged mix. Default: "first" */
+  channels?: Exclude<WaveformChannelMode, "split">;
+}
+
+/**
+ * Extract peaks from the channel(s) picked by `options.channels`
+ */
+function extractPeaks(audio: DecodedAudio, options: GeneratePeaksOptions): number[] {
+  const [channel] = selectChannels(audio.channelData, options.channels ?? "first");
+  return extractPeaksFromChannelData(channel, options.sampleCount ?? DEFAULT_PEAKS_SAMPLE_COUNT, options);
+}
+
+/**
+ * Whether the bytes look like MP3 (ID3 tag or MPEG frame sync)
+ */
+function isMp3(bytes: Uint8Array): boolean {
+  if (bytes.length < 3) return false;
+  const hasId3 = bytes[0] === 0x49 && bytes[1] === 0x44 && bytes[2] === 0x33;
+  const hasFrameSync = bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0;
+  return hasId3 || hasFrameSync;
+}
+
+/**
+ * Decode WAV or MP3 bytes into channel data (format detected from the file header)
+ *
+ * @param input - Encoded audio bytes
+ * @throws Error for empty input or unsupported formats
+ */
+export async function decodeAudioBuffer(input: AudioInput): Promise<DecodedAudio> {
+  const bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
+
+  if (bytes.byteLength === 0) {
+    throw new Error("Audio buffer is empty");
+  }
+
+  if (isWav(bytes)) {
+    return decodeWav(bytes);
+  }
+
+  if (isMp3(bytes)) {
+    // Copy out the exact bytes (Node Buffers are often views into a shared pool)
+    const arrayBuffer = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+    return decodeWithWASM(arrayBuffer);
+  }
+
+  throw new Error(`Unsupported audio format (size: ${bytes.byteLength} bytes). Only WAV and MP3 are supported.`);
+}
+
+/**
+ * Generate normalized peaks (0-1 range) from WAV or MP3 bytes
+ * Same format as browser decoding, ready for AudioWaveform's `peaks` prop
+ *
+ * @example
+ * ```ts
+ * import { readFile } from "node:fs/promises";
+ * import { generatePeaks } from "react-audio-wavekit/node";
+ *
+ * const peaks = await generatePeaks(await readFile("upload.mp3"));
+ * ```
+ */
+export async function generatePeaks(input: AudioInput, options: GeneratePeaksOptions = {}): Promise<number[]> {
+  return extractPeaks(await decodeAudioBuffer(input), options);
+}
+
+/**
+ * Generate serializable peaks data (peaks with sample rate and duration)
+ * Store with `serializePeaksData` and load with `parsePeaksData`
+ */
+export async function generatePeaksData(
+  input: AudioInput,
+  options: GeneratePeaksOptions = {}
+): Promise<WaveformPeaksData> {
+  const audio = await decodeAudioBuffer(input);
+  return {
+    version: 1,
+    sampleRate: audio.sampleRate,
+    duration: audio.channelData[0].length / audio.sampleRate,
+    peaks: extractPeaks(audio, options),
+  };
+}
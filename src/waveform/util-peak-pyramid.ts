@@ -0,0 +1,244 @@
+// ============================================================================
+// Peak Pyramid - Multi-resolution min/max peaks (mip-map style)
+// Computed once per decoded blob; renderers pick the level matching their width
+// ============================================================================
+
+import type { WaveformPeakMode } from "../types";
+
+// Samples covered by each peak of the finest level (~344 peaks/s at 44.1kHz, enough for deep zoom)
+export const BASE_SAMPLES_PER_PEAK = 128;
+
+// Peaks in the coarse preview sent with each progress update (small enough to copy on every tick)
+export const PREVIEW_PEAKS = 2048;
+
+/**
+ * One resolution level of the pyramid
+ */
+export interface PeakLevel {
+  /** Minimum sample value per block (-1 to 0 range for decoded audio) */
+  min: Float32Array;
+  /** Maximum sample value per block (0 to 1 range for decoded audio) */
+  max: Float32Array;
+  /** Mean absolute sample value per block ("average" mode) */
+  mean: Float32Array;
+  /** Mean squared sample value per block ("rms" mode, square-rooted when drawn) */
+  meanSquare: Float32Array;
+}
+
+/**
+ * Min/max peaks at halving resolutions (levels[0] is the finest)
+ */
+export interface PeakPyramid {
+  /** Levels from finest to coarsest, each half the length of the previous */
+  levels: PeakLevel[];
+  /** Largest absolute value across all peaks (used for per-file normalization) */
+  maxAmplitude: number;
+}
+
+/**
+ * Progress callback for pyramid extraction
+ * `partial` is a coarse preview of the whole duration (blocks not yet processed are silent)
+ */
+export type PeakProgressCallback = (fraction: number, partial: PeakPyramid) => void;
+
+/**
+ * Pyramid builders as plain source text, shared by the main thread and the peak worker
+ * Kept as text because the worker can't run compiled functions that bundlers and minifiers rewrite
+ *
+ * - buildLevels(base): stack halving levels on top of a finest level until a single peak remains
+ * - computePeakPyramid(channelData, samplesPerPeak, previewPeaks, onProgress): compute the finest level
+ *   block by block, then stack coarser levels on top; progress (0-1) with a coarse partial preview is
+ *   reported roughly every 1% of blocks, then once more with the finished pyramid
+ */
+export const PEAK_PYRAMID_SOURCE = `function buildLevels(base) {
+  const levels = [base];
+  let level = base;
+  while (level.min.length > 1) {
+    // Halve by merging neighbouring blocks
+    const length = Math.ceil(level.min.length / 2);
+    const min = new Float32Array(length);
+    const max = new Float32Array(length);
+    const mean = new Float32Array(length);
+    const meanSquare = new Float32Array(length);
+    for (let i = 0; i < length; i++) {
+      const a = i * 2;
+      const b = Math.min(a + 1, level.min.length - 1);
+      min[i] = Math.min(level.min[a], level.min[b]);
+      max[i] = Math.max(level.max[a], level.max[b]);
+      mean[i] = (level.mean[a] + level.mean[b]) / 2;
+      meanSquare[i] = (level.meanSquare[a] + level.meanSquare[b]) / 2;
+    }
+    level = { min, max, mean, meanSquare };
+    levels.push(level);
+  }
+  return levels;
+}
+
+function computePeakPyramid(channelData, samplesPerPeak, previewPeaks, onProgress) {
+  const length = Math.ceil(channelData.length / samplesPerPeak);
+  const min = new Float32Array(length);
+  const max = new Float32Array(length);
+  const mean = new Float32Array(length);
+  const meanSquare = new Float32Array(length);
+  const progressInterval = Math.max(1, Math.floor(length / 100));
+  const previewLength = Math.min(previewPeaks, length);
+  const previewMin = new Float32Array(previewLength);
+  const previewMax = new Float32Array(previewLength);
+  // Preview means are accumulated as sums and divided by the block count when reported
+  const previewSum = new Float32Array(previewLength);
+  const previewSquareSum = new Float32Array(previewLength);
+  const previewCount = new Float32Array(previewLength);
+  let maxAmplitude = 0;
+
+  for (let i = 0; i < length; i++) {
+    const start = i * samplesPerPeak;
+    const end = Math.min(start + samplesPerPeak, channelData.length);
+    let blockMin = 0;
+    let blockMax = 0;
+    let absSum = 0;
+    let squareSum = 0;
+    for (let j = start; j < end; j++) {
+      const sample = channelData[j];
+      if (sample < blockMin) blockMin = sample;
+      if (sample > blockMax) blockMax = sample;
+      absSum += Math.abs(sample);
+      squareSum += sample * sample;
+    }
+    min[i] = blockMin;
+    max[i] = blockMax;
+    mean[i] = absSum / (end - start);
+    meanSquare[i] = squareSum / (end - start);
+    maxAmplitude = Math.max(maxAmplitude, -blockMin, blockMax);
+
+    if (onProgress) {
+      const p = Math.floor((i * previewLength) / length);
+      previewMin[p] = Math.min(previewMin[p], blockMin);
+      previewMax[p] = Math.max(previewMax[p], blockMax);
+      previewSum[p] += mean[i];
+      previewSquareSum[p] += meanSquare[i];
+      previewCount[p] += 1;
+      if (i % progressInterval === 0) {
+        const average = (sums) => sums.map((sum, k) => (previewCount[k] > 0 ? sum / previewCount[k] : 0));
+        onProgress(i / length, {
+          levels: buildLevels({
+            min: previewMin.slice(),
+            max: previewMax.slice(),
+            mean: average(previewSum),
+            meanSquare: average(previewSquareSum),
+          }),
+          maxAmplitude,
+        });
+      }
+    }
+  }
+
+  const pyramid = { levels: length > 0 ? buildLevels({ min, max, mean, meanSquare }) : [], maxAmplitude };
+  if (onProgress) onProgress(1, pyramid);
+  return pyramid;
+}
+`;
+
+interface PeakPyramidBuilders {
+  buildLevels: (base: PeakLevel) => PeakLevel[];
+  computePeakPyramid: (
+    channelData: Float32Array,
+    samplesPerPeak: number,
+    previewPeaks: number,
+    onProgress?: PeakProgressCallback
+  ) => PeakPyramid;
+}
+
+// Evaluated on first use so importing the module runs no code
+let builders: PeakPyramidBuilders | null = null;
+
+function getBuilders(): PeakPyramidBuilders {
+  if (!builders) {
+    builders = new Function(
+      `${PEAK_PYRAMID_SOURCE}\nreturn { buildLevels, computePeakPyramid };`
+    )() as PeakPyramidBuilders;
+  }
+  return builders;
+}
+
+/**
+ * Build a min/max peak pyramid from raw channel data
+ */
+export function buildPeakPyramid(channelData: Float32Array, onProgress?: PeakProgressCallback): PeakPyramid {
+  return getBuilders().computePeakPyramid(channelData, BASE_SAMPLES_PER_PEAK, PREVIEW_PEAKS, onProgress);
+}
+
+/**
+ * Wrap flat normalized peaks (0-1 range, e.g. the `peaks` prop) as a symmetric pyramid
+ */
+export function createPeakPyramidFromPeaks(peaks: number[]): PeakPyramid {
+  if (peaks.length === 0) return { levels: [], maxAmplitude: 0 };
+
+  const max = Float32Array.from(peaks);
+  const min = Float32Array.from(peaks, (peak) => -peak);
+  const meanSquare = Float32Array.from(peaks, (peak) => peak * peak);
+  // Flat peaks are already normalized, so they are drawn as-is in every peak mode
+  return { levels: getBuilders().buildLevels({ min, max, mean: max.slice(), meanSquare }), maxAmplitude: 1 };
+}
+
+/**
+ * Pick the coarsest level that still has at least `count` peaks (finest level when none does)
+ */
+export function selectPeakLevel(pyramid: PeakPyramid, count: number): PeakLevel | null {
+  const { levels } = pyramid;
+  for (let i = levels.length - 1; i >= 0; i--) {
+    if (levels[i].min.length >= count) return levels[i];
+  }
+  return levels[0] ?? null;
+}
+
+/**
+ * Envelope of blocks [start, end) of a level for a peak mode (0-1 range before normalization)
+ * Symmetric modes mirror one magnitude; "minmax" keeps the signed extremes
+ */
+export function getPeakEnvelope(
+  level: PeakLevel,
+  start: number,
+  end: number,
+  mode: WaveformPeakMode
+): { min: number; max: number } {
+  let min = 0;
+  let max = 0;
+  let sum = 0;
+  for (let j = start; j < end; j++) {
+    if (mode === "average") sum += level.mean[j];
+    else if (mode === "rms") sum += level.meanSquare[j];
+    else {
+      min = Math.min(min, level.min[j]);
+      max = Math.max(max, level.max[j]);
+    }
+  }
+
+  if (mode === "minmax") return { min, max };
+  const count = Math.max(1, end - start);
+  const magnitude = mode === "average" ? sum / count : mode === "rms" ? Math.sqrt(sum / count) : Math.max(-min, max);
+  return { min: -magnitude, max: magnitude };
+}
+
+// Loudest averaged block per level (cached, levels are immutable once built)
+const levelMeanMaxCache = new WeakMap<PeakLevel, { average: number; rms: number }>();
+
+/**
+ * Loudest value a level can draw in a peak mode (used for per-file normalization)
+ * Peak modes use the pyramid's absolute peak; averaged modes use the loudest block of the level
+ */
+export function getPeakModeMax(pyramid: PeakPyramid, level: PeakLevel, mode: WaveformPeakMode): number {
+  if (mode === "peak" || mode === "minmax") return pyramid.maxAmplitude;
+
+  let cached = levelMeanMaxCache.get(level);
+  if (!cached) {
+    let average = 0;
+    let meanSquare = 0;
+    for (let i = 0; i < level.mean.length; i++) {
+      average = Math.max(average, level.mean[i]);
+      meanSquare = Math.max(meanSquare, level.meanSquare[i]);
+    }
+    cached = { average, rms: Math.sqrt(meanSquare) };
+    levelMeanMaxCache.set(level, cached);
+  }
+  return cached[mode];
+}
@@ -0,0 +1,55 @@
+// ============================================================================
+// Peaks Data Serialization
+// JSON schema for peaks precomputed on the server and loaded by AudioWaveform
+// ============================================================================
+
+import type { WaveformPeaksData } from "../types";
+
+const PEAKS_DATA_VERSION = 1;
+
+/**
+ * Serialize peaks data to JSON
+ *
+ * @param data - Peaks data to serialize
+ * @param precision - Decimal places kept per peak (smaller JSON). Default: 4
+ */
+export function serializePeaksData(data: WaveformPeaksData, precision = 4): string {
+  const factor = 10 ** precision;
+  return JSON.stringify({
+    version: data.version,
+    sampleRate: data.sampleRate,
+    duration: data.duration,
+    peaks: data.peaks.map((peak) => Math.round(peak * factor) / factor),
+  });
+}
+
+/**
+ * Parse and validate serialized peaks data
+ *
+ * @param json - JSON string (or an already parsed object, e.g. from `fetch().json()`)
+ * @throws Error when the value does not match the schema
+ */
+export function parsePeaksData(json: string | unknown): WaveformPeaksData {
+  const value = typeof json === "string" ? JSON.parse(json) : json;
+
+  if (typeof value !== "object" || value === null) {
+    throw new Error("Invalid peaks data: expected an object");
+  }
+
+  const { version, sampleRate, duration, peaks } = value as Record<string, unknown>;
+
+  if (version !== PEAKS_DATA_VERSION) {
+    throw new Error(`Unsupported peaks data version: ${String(version)}`);
+  }
+  if (typeof sampleRate !== "number" || !(sampleRate > 0)) {
+    throw new Error("Invalid peaks data: sampleRate must be a positive number");
+  }
+  if (typeof duration !== "number" || !(duration >= 0)) {
+    throw new Error("Invalid peaks data: duration must be a non-negative number");
+  }
+  if (!Array.isArray(peaks) || peaks.some((peak) => typeof peak !== "number" || peak < 0 || peak > 1)) {
+    throw new Error("Invalid peaks data: peaks must be numbers in the 0-1 range");
+  }
+
+  return { version: PEAKS_DATA_VERSION, sampleRate, duration, peaks };
+}
@@ -0,0 +1,115 @@
+// ============================================================================
+// Region Editing
+// Pure helpers for resizing, moving and creating regions under the overlap rule
+// ============================================================================
+
+import type { WaveformRegion, WaveformRegionOverlap } from "../types";
+
+/**
+ * Random id for a region drawn by the user, distinct from every id in `regions`
+ * Uses crypto.randomUUID where available (secure contexts), otherwise a prefixed random string
+ */
+export function createRegionId(regions: WaveformRegion[]): string {
+  const taken = new Set(regions.map((region) => region.id));
+  let id: string;
+  do {
+    id =
+      typeof crypto !== "undefined" && typeof crypto.randomUUID === "function"
+        ? crypto.randomUUID()
+        : `wavekit-region-${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+  } while (taken.has(id));
+  return id;
+}
+
+/**
+ * Free range around `[start, end]` that the region may grow into
+ * With "prevent", neighbors that lie fully before/after the range limit it; with "allow" it's the whole duration
+ */
+export function getRegionBounds(
+  regions: WaveformRegion[],
+  id: string,
+  start: number,
+  end: number,
+  duration: number,
+  overlap: WaveformRegionOverlap
+): { min: number; max: number } {
+  let min = 0;
+  let max = duration;
+  if (overlap === "allow") return { min, max };
+
+  for (const other of regions) {
+    if (other.id === id) continue;
+    if (other.end <= start) min = Math.max(min, other.end);
+    if (other.start >= end) max = Math.min(max, other.start);
+  }
+  return { min, max };
+}
+
+/**
+ * Move one edge of a region to `time` (edges never cross, neighbors block with "prevent")
+ */
+export function resizeRegion(
+  regions: WaveformRegion[],
+  region: WaveformRegion,
+  edge: "start" | "end",
+  time: number,
+  duration: number,
+  overlap: WaveformRegionOverlap
+): WaveformRegion {
+  const { min, max } = getRegionBounds(regions, region.id, region.start, region.end, duration, overlap);
+  if (edge === "start") {
+    return { ...region, start: Math.max(min, Math.min(time, region.end)) };
+  }
+  return { ...region, end: Math.min(max, Math.max(time, region.start)) };
+}
+
+/**
+ * Move a whole region so it starts at `start` (keeps its length, neighbors block with "prevent")
+ */
+export function moveRegion(
+  regions: WaveformRegion[],
+  region: WaveformRegion,
+  start: number,
+  duration: number,
+  overlap: WaveformRegionOverlap
+): WaveformRegion {
+  const length = region.end - region.start;
+  const { min, max } = getRegionBounds(regions, region.id, region.start, region.end, duration, overlap);
+  const nextStart = Math.max(min, Math.min(start, max - length));
+  return { ...region, start: nextStart, end: nextStart + length };
+}
+
+/**
+ * Span a new region between the anchor (where the drag started) and `time`
+ * With "prevent", the region stops at the neighbors around the anchor
+ */
+export function spanRegion(
+  regions: WaveformRegion[],
+  region: WaveformRegion,
+  anchor: number,
+  time: number,
+  duration: number,
+  overlap: WaveformRegionOverlap
+): WaveformRegion {
+  const { min, max } = getRegionBounds(regions, region.id, anchor, anchor, duration, overlap);
+  const clamped = Math.max(min, Math.min(time, max));
+  return { ...region, start: Math.min(anchor, clamped), end: Math.max(anchor, clamped) };
+}
+
+/**
+ * Whether `time` falls inside any region (used to block new regions inside existing ones)
+ */
+export function isInsideRegion(regions: WaveformRegion[], time: number): boolean {
+  return regions.some((region) => time > region.start && time < region.end);
+}
+
+/**
+ * Replace the region with the same id, or append it when it's new
+ */
+export function upsertRegion(regions: WaveformRegion[], region: WaveformRegion): WaveformRegion[] {
+  const index = regions.findIndex((item) => item.id === region.id);
+  if (index === -1) return [...regions, region];
+  const next = regions.slice();
+  next[index] = region;
+  return next;
+}
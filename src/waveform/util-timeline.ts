@@ -0,0 +1,88 @@
+// ============================================================================
+// Timeline Ruler
+// Adaptive time axis drawn at the bottom of waveform canvases
+// ============================================================================
+
+import { formatTime } from "./util-format-time";
+
+// Tick intervals in seconds, from tenths of a second to an hour
+const TICK_INTERVALS = [0.1, 0.2, 0.5, 1, 2, 5, 10, 15, 30, 60, 120, 300, 600, 900, 1800, 3600];
+
+// Minimum spacing (CSS pixels) between labeled ticks and between minor ticks
+const MIN_LABEL_SPACING = 60;
+const MIN_TICK_SPACING = 8;
+
+const MAJOR_TICK_HEIGHT = 6;
+const MINOR_TICK_HEIGHT = 3;
+
+/**
+ * Pick tick intervals for a zoom level: the smallest labeled interval that fits a label,
+ * and the smallest evenly dividing interval that keeps minor ticks apart (equal to major when none fits)
+ */
+export function getTimelineIntervals(pixelsPerSecond: number): { major: number; minor: number } {
+  const major =
+    TICK_INTERVALS.find((interval) => interval * pixelsPerSecond >= MIN_LABEL_SPACING) ??
+    TICK_INTERVALS[TICK_INTERVALS.length - 1];
+  const minor =
+    TICK_INTERVALS.find((interval) => {
+      const count = major / interval;
+      return interval * pixelsPerSecond >= MIN_TICK_SPACING && Math.abs(count - Math.round(count)) < 1e-6;
+    }) ?? major;
+  return { major, minor };
+}
+
+/**
+ * Tick label: "m:ss", with tenths when labeled ticks are less than a second apart
+ */
+export function formatTimelineLabel(time: number, interval: number): string {
+  if (interval >= 1) return formatTime(time);
+  const tenths = Math.round((time % 1) * 10) % 10;
+  return `${formatTime(time)}.${tenths}`;
+}
+
+export interface DrawTimelineOptions {
+  /** Horizontal scale of the canvas content */
+  pixelsPerSecond: number;
+  /** Content x of the canvas left edge (scroll offset when zoomed in) */
+  offset: number;
+  /** Visible canvas size (CSS pixels) */
+  width: number;
+  height: number;
+  /** Longest time to mark (ticks stop here) */
+  duration: number;
+  color: string;
+  font: string;
+}
+
+/**
+ * Draw tick marks along the bottom edge with a label next to each major tick
+ * Only the visible range is drawn, so long zoomed-in files stay cheap
+ */
+export function drawTimeline(ctx: CanvasRenderingContext2D, options: DrawTimelineOptions): void {
+  const { pixelsPerSecond, offset, width, height, duration, color, font } = options;
+  if (pixelsPerSecond <= 0 || duration <= 0) return;
+
+  const { major, minor } = getTimelineIntervals(pixelsPerSecond);
+  const firstTick = Math.max(0, Math.floor(offset / pixelsPerSecond / minor));
+  const lastTick = Math.min(Math.floor(duration / minor + 1e-6), Math.ceil((offset + width) / pixelsPerSecond / minor));
+  const ticksPerMajor = Math.round(major / minor);
+
+  ctx.save();
+  ctx.fillStyle = color;
+  ctx.font = font;
+  ctx.textBaseline = "bottom";
+
+  for (let tick = firstTick; tick <= lastTick; tick++) {
+    const time = tick * minor;
+    // Round to whole CSS pixels so 1px ticks stay crisp
+    const x = Math.round(time * pixelsPerSecond - offset);
+    const isMajor = tick % ticksPerMajor === 0;
+    const tickHeight = isMajor ? MAJOR_TICK_HEIGHT : MINOR_TICK_HEIGHT;
+    ctx.fillRect(x, height - tickHeight, 1, tickHeight);
+    if (isMajor) {
+      ctx.fillText(formatTimelineLabel(time, major), x + 3, height - 1);
+    }
+  }
+
+  ctx.restore();
+}
@@ -0,0 +1,119 @@
+// ============================================================================
+// WAV Decoding Utilities
+// Parses RIFF/WAVE bytes into Float32 channel data without Web Audio (works in Node)
+// ============================================================================
+
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+function readString(view: DataView, offset: number, length: number): string {
+  let value = "";
+  for (let i = 0; i < length; i++) {
+    value += String.fromCharCode(view.getUint8(offset + i));
+  }
+  return value;
+}
+
+/**
+ * Whether the bytes start with a RIFF/WAVE header
+ */
+export function isWav(bytes: Uint8Array): boolean {
+  if (bytes.length < 12) return false;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return readString(view, 0, 4) === "RIFF" && readString(view, 8, 4) === "WAVE";
+}
+
+/**
+ * Read one sample at `offset` as a float in the -1 to 1 range
+ */
+function readSample(view: DataView, offset: number, bitsPerSample: number, isFloat: boolean): number {
+  if (isFloat) {
+    return bitsPerSample === 64 ? view.getFloat64(offset, true) : view.getFloat32(offset, true);
+  }
+  switch (bitsPerSample) {
+    case 8:
+      // 8-bit PCM is unsigned
+      return (view.getUint8(offset) - 128) / 128;
+    case 16:
+      return view.getInt16(offset, true) / 0x8000;
+    case 24: {
+      const value = view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getInt8(offset + 2) << 16);
+      return value / 0x800000;
+    }
+    default:
+      return view.getInt32(offset, true) / 0x80000000;
+  }
+}
+
+/**
+ * Decode WAV bytes (8/16/24/32-bit PCM or 32/64-bit float) into channel data
+ *
+ * @param bytes - Complete WAV file contents
+ * @returns Float32 samples per channel (-1 to 1 range) and sample rate in Hz
+ */
+export function decodeWav(bytes: Uint8Array): { channelData: Float32Array[]; sampleRate: number } {
+  if (!isWav(bytes)) {
+    throw new Error("Invalid WAV data: missing RIFF/WAVE header");
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let format: { audioFormat: number; numChannels: number; sampleRate: number; bitsPerSample: number } | null = null;
+  let offset = 12;
+
+  // Walk chunks until "data" (chunks are word-aligned)
+  while (offset + 8 <= view.byteLength) {
+    const chunkId = readString(view, offset, 4);
+    const chunkSize = view.getUint32(offset + 4, true);
+    const chunkStart = offset + 8;
+
+    if (chunkId === "fmt ") {
+      let audioFormat = view.getUint16(chunkStart, true);
+      // Extensible format stores the real format in the first two bytes of the sub-format GUID
+      if (audioFormat === WAVE_FORMAT_EXTENSIBLE && chunkSize >= 26) {
+        audioFormat = view.getUint16(chunkStart + 24, true);
+      }
+      format = {
+        audioFormat,
+        numChannels: view.getUint16(chunkStart + 2, true),
+        sampleRate: view.getUint32(chunkStart + 4, true),
+        bitsPerSample: view.getUint16(chunkStart + 14, true),
+      };
+    } else if (chunkId === "data") {
+      if (!format) {
+        throw new Error("Invalid WAV data: data chunk before fmt chunk");
+      }
+
+      const { audioFormat, numChannels, sampleRate, bitsPerSample } = format;
+      const isFloat = audioFormat === WAVE_FORMAT_IEEE_FLOAT;
+      const supportedBits = isFloat ? [32, 64] : [8, 16, 24, 32];
+      if ((audioFormat !== WAVE_FORMAT_PCM && !isFloat) || numChannels < 1 || !supportedBits.includes(bitsPerSample)) {
+        throw new Error(`Unsupported WAV encoding (format: ${audioFormat}, bits: ${bitsPerSample})`);
+      }
+
+      const bytesPerSample = bitsPerSample / 8;
+      const blockAlign = numChannels * bytesPerSample;
+      // Streams written before their length was known may report a size past the end of file
+      const dataSize = Math.min(chunkSize, view.byteLength - chunkStart);
+      const frameCount = Math.floor(dataSize / blockAlign);
+
+      const channelData = Array.from({ length: numChannels }, () => new Float32Array(frameCount));
+      for (let i = 0; i < frameCount; i++) {
+        for (let ch = 0; ch < numChannels; ch++) {
+          channelData[ch][i] = readSample(
+            view,
+            chunkStart + i * blockAlign + ch * bytesPerSample,
+            bitsPerSample,
+            isFloat
+          );
+        }
+      }
+
+      return { channelData, sampleRate };
+    }
+
+    offset = chunkStart + chunkSize + (chunkSize % 2);
+  }
+
+  throw new Error("Invalid WAV data: missing data chunk");
+}
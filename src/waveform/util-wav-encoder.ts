@@ -0,0 +1,79 @@
+// ============================================================================
+// WAV Encoding Utilities
+// Encodes raw PCM channel data into a 16-bit PCM WAV (RIFF) Blob
+// ============================================================================
+
+const WAV_HEADER_SIZE = 44;
+const BYTES_PER_SAMPLE = 2; // 16-bit PCM
+
+function writeString(view: DataView, offset: number, value: string) {
+  for (let i = 0; i < value.length; i++) {
+    view.setUint8(offset + i, value.charCodeAt(i));
+  }
+}
+
+/**
+ * Resample channel data with linear interpolation
+ * Used when joining mixed sample rates and when recording at a custom WAV sample rate
+ */
+export function resampleChannel(channel: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate || channel.length === 0) return channel;
+
+  const ratio = fromRate / toRate;
+  const output = new Float32Array(Math.round(channel.length / ratio));
+  for (let i = 0; i < output.length; i++) {
+    const position = i * ratio;
+    const index = Math.min(Math.floor(position), channel.length - 1);
+    const next = channel[Math.min(index + 1, channel.length - 1)];
+    output[i] = channel[index] + (next - channel[index]) * (position - index);
+  }
+  return output;
+}
+
+/**
+ * Encode channel data as 16-bit PCM WAV
+ * Channels are interleaved; shorter channels are padded with silence
+ *
+ * @param channelData - Float32 samples per channel (-1 to 1 range)
+ * @param sampleRate - Sample rate in Hz
+ */
+export function encodeWav(channelData: Float32Array[], sampleRate: number): Blob {
+  const numChannels = Math.max(1, channelData.length);
+  const frameCount = channelData.reduce((max, channel) => Math.max(max, channel.length), 0);
+  const blockAlign = numChannels * BYTES_PER_SAMPLE;
+  const dataSize = frameCount * blockAlign;
+
+  const buffer = new ArrayBuffer(WAV_HEADER_SIZE + dataSize);
+  const view = new DataView(buffer);
+
+  // RIFF chunk descriptor
+  writeString(view, 0, "RIFF");
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(view, 8, "WAVE");
+
+  // fmt sub-chunk (PCM)
+  writeString(view, 12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, BYTES_PER_SAMPLE * 8, true);
+
+  // data sub-chunk
+  writeString(view, 36, "data");
+  view.setUint32(40, dataSize, true);
+
+  let offset = WAV_HEADER_SIZE;
+  for (let i = 0; i < frameCount; i++) {
+    for (let ch = 0; ch < numChannels; ch++) {
+      const sample = Math.max(-1, Math.min(1, channelData[ch]?.[i] ?? 0));
+      // Asymmetric scaling keeps -1 and 1 within Int16 range
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+      offset += BYTES_PER_SAMPLE;
+    }
+  }
+
+  return new Blob([buffer], { type: "audio/wav" });
+}
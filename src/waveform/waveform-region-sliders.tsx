@@ -0,0 +1,133 @@
+import { type CSSProperties, forwardRef } from "react";
+import type { WaveformRegion, WaveformRegionChange, WaveformRegionOverlap } from "../types";
+import { formatTimeForScreen } from "./util-format-time";
+import { getRegionBounds, resizeRegion } from "./util-regions";
+
+// Arrow keys move a region edge by 1s, Page Up/Down by 5s (the canvas seek step)
+const REGION_KEY_STEP = 1;
+const REGION_PAGE_STEP = 5;
+
+// Keeps the sliders reachable by keyboard and screen readers without affecting layout
+const VISUALLY_HIDDEN: CSSProperties = {
+  position: "absolute",
+  width: 1,
+  height: 1,
+  padding: 0,
+  margin: -1,
+  overflow: "hidden",
+  clip: "rect(0, 0, 0, 0)",
+  whiteSpace: "nowrap",
+  border: 0,
+};
+
+export interface RegionEdgeFocus {
+  id: string;
+  edge: "start" | "end";
+}
+
+interface WaveformRegionSlidersProps {
+  regions: WaveformRegion[];
+  duration: number;
+  overlap: WaveformRegionOverlap;
+  onRegionsChange: (regions: WaveformRegion[], change: WaveformRegionChange) => void;
+  /** Called with the focused edge (highlighted on the canvas), or null on blur */
+  onFocusEdge: (focus: RegionEdgeFocus | null) => void;
+}
+
+/**
+ * Visually hidden slider pair (start, end) per editable region
+ * Arrow keys and Page Up/Down adjust the edge, Home/End jump to its limits, Delete/Backspace removes the region
+ */
+export const WaveformRegionSliders = forwardRef<HTMLDivElement, WaveformRegionSlidersProps>(
+  function WaveformRegionSliders({ regions, duration, overlap, onRegionsChange, onFocusEdge }, ref) {
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>, region: WaveformRegion, edge: "start" | "end") => {
+      const current = edge === "start" ? region.start : region.end;
+      const bounds = getRegionBounds(regions, region.id, region.start, region.end, duration, overlap);
+      let time: number;
+
+      switch (e.key) {
+        case "ArrowLeft":
+        case "ArrowDown":
+          time = current - REGION_KEY_STEP;
+          break;
+        case "ArrowRight":
+        case "ArrowUp":
+          time = current + REGION_KEY_STEP;
+          break;
+        case "PageDown":
+          time = current - REGION_PAGE_STEP;
+          break;
+        case "PageUp":
+          time = current + REGION_PAGE_STEP;
+          break;
+        case "Home":
+          time = edge === "start" ? bounds.min : region.start;
+          break;
+        case "End":
+          time = edge === "start" ? region.end : bounds.max;
+          break;
+        case "Delete":
+        case "Backspace":
+          e.preventDefault();
+          onFocusEdge(null);
+          onRegionsChange(
+            regions.filter((item) => item.id !== region.id),
+            { type: "remove", region }
+          );
+          return;
+        default:
+          return;
+      }
+
+      e.preventDefault();
+      const next = resizeRegion(regions, region, edge, time, duration, overlap);
+      onRegionsChange(
+        regions.map((item) => (item.id === region.id ? next : item)),
+        { type: "update", region: next }
+      );
+    };
+
+    return (
+      <div ref={ref} style={VISUALLY_HIDDEN}>
+        {regions.map((region) => {
+          if (region.editable === false) return null;
+          const name = region.label ?? "Region";
+          const bounds = getRegionBounds(regions, region.id, region.start, region.end, duration, overlap);
+
+          return (
+            <fieldset key={region.id} aria-label={name}>
+              <div
+                role="slider"
+                tabIndex={0}
+                data-region-id={region.id}
+                data-region-edge="start"
+                aria-label={`${name} start`}
+                aria-valuemin={Math.floor(bounds.min)}
+                aria-valuemax={Math.floor(region.end)}
+                aria-valuenow={Math.floor(region.start)}
+                aria-valuetext={formatTimeForScreen(region.start)}
+                onKeyDown={(e) => handleKeyDown(e, region, "start")}
+                onFocus={() => onFocusEdge({ id: region.id, edge: "start" })}
+                onBlur={() => onFocusEdge(null)}
+              />
+              <div
+                role="slider"
+                tabIndex={0}
+                data-region-id={region.id}
+                data-region-edge="end"
+                aria-label={`${name} end`}
+                aria-valuemin={Math.floor(region.start)}
+                aria-valuemax={Math.floor(bounds.max)}
+                aria-valuenow={Math.floor(region.end)}
+                aria-valuetext={formatTimeForScreen(region.end)}
+                onKeyDown={(e) => handleKeyDown(e, region, "end")}
+                onFocus={() => onFocusEdge({ id: region.id, edge: "end" })}
+                onBlur={() => onFocusEdge(null)}
+              />
+            </fieldset>
+          );
+        })}
+      </div>
+    );
+  }
+);
@@ -1,14 +1,123 @@
-import { forwardRef, useCallback, useEffect, useImperativeHandle, useRef } from "react";
-import { DEFAULT_PLAYHEAD_APPEARANCE, DEFAULT_WAVEFORM_APPEARANCE } from "../constants";
-import type { AudioWaveformAppearance } from "../types";
+import {
+  forwardRef,
+  type ReactNode,
+  useCallback,
+  useEffect,
+  useImperativeHandle,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { createPortal } from "react-dom";
+import {
+  DEFAULT_HOVER_APPEARANCE,
+  DEFAULT_MARKER_APPEARANCE,
+  DEFAULT_PLAYHEAD_APPEARANCE,
+  DEFAULT_REGION_APPEARANCE,
+  DEFAULT_SELECTION_APPEARANCE,
+  DEFAULT_TIMELINE_APPEARANCE,
+  DEFAULT_WAVEFORM_APPEARANCE,
+  DRAG_THRESHOLD,
+} from "../constants";
+import type {
+  AmplitudeScaleOptions,
+  AudioWaveformAppearance,
+  WaveformHoverInfo,
+  WaveformMarker,
+  WaveformPeakMode,
+  WaveformRegion,
+  WaveformRegionChange,
+  WaveformRegionOverlap,
+  WaveformSelection,
+} from "../types";
+import { createAmplitudeScale } from "./util-amplitude-scale";
+import { formatTime, formatTimeForScreen } from "./util-format-time";
+import {
+  createPeakPyramidFromPeaks,
+  getPeakEnvelope,
+  getPeakModeMax,
+  type PeakPyramid,
+  selectPeakLevel,
+} from "./util-peak-pyramid";
+import { createRegionId, isInsideRegion, moveRegion, resizeRegion, spanRegion, upsertRegion } from "./util-regions";
+import { drawTimeline } from "./util-timeline";
+import { type RegionEdgeFocus, WaveformRegionSliders } from "./waveform-region-sliders";
+
+// Hit area (in CSS pixels) around each selection edge for grabbing a handle (wider for fingers)
+const SELECTION_HANDLE_HIT_SLOP = 6;
+const SELECTION_HANDLE_TOUCH_HIT_SLOP = 16;
+
+// Zoom change per wheel delta unit (ctrl/meta + wheel, trackpad pinch)
+const WHEEL_ZOOM_SENSITIVITY = 0.01;
+
+// Markers, region bodies and new regions only start dragging after this distance (in CSS pixels)
+// so plain clicks still fire onMarkerClick/onRegionClick and seek
+const CLICKABLE_DRAG_THRESHOLD = 3;
+
+// Height (in CSS pixels) of the clickable area around a marker label
+const MARKER_LABEL_HEIGHT = 16;
+
+// Which interaction the current drag is driving
+type DragMode =
+  | "seek"
+  | "selection-start"
+  | "selection-end"
+  | "selection-new"
+  | "marker"
+  | "region-start"
+  | "region-end"
+  | "region-move"
+  | "region-new"
+  | "pan";
+
+/**
+ * Horizontal viewport over the waveform content
+ * Without zoom (or when zoomed content is narrower than the view) the content fits the view exactly
+ */
+function getViewport(viewWidth: number, duration: number | undefined, zoom: number | undefined, scrollLeft: number) {
+  const contentWidth = zoom && duration && duration > 0 ? Math.max(viewWidth, duration * zoom) : viewWidth;
+  const offset = Math.max(0, Math.min(scrollLeft, contentWidth - viewWidth));
+  return { contentWidth, offset };
+}
+
+/**
+ * Move a grabbed marker so it follows the pointer time (spans keep their length and stay inside the duration)
+ */
+function moveMarker(marker: WaveformMarker, grabOffset: number, time: number, duration: number): WaveformMarker {
+  const length = marker.end !== undefined ? Math.max(0, marker.end - marker.time) : 0;
+  const start = Math.max(0, Math.min(time - grabOffset, duration - length));
+  return marker.end !== undefined ? { ...marker, time: start, end: start + length } : { ...marker, time: start };
+}
+
+/**
+ * Peak input accepted by the renderer: flat peaks or pyramids, one per lane when given as a list
+ */
+export type WaveformRendererPeaks = number[] | number[][] | PeakPyramid | PeakPyramid[];
+
+/**
+ * Normalize renderer input to one pyramid per stacked lane
+ */
+function toPeakLanes(peaks: WaveformRendererPeaks | null): PeakPyramid[] | null {
+  if (!peaks) return null;
+  if (!Array.isArray(peaks)) return [peaks];
+  const first = peaks[0];
+  if (first === undefined || typeof first === "number") return [createPeakPyramidFromPeaks(peaks as number[])];
+  if (Array.isArray(first)) return (peaks as number[][]).map(createPeakPyramidFromPeaks);
+  return peaks as PeakPyramid[];
+}
 
 // ============================================================================
 // Common Waveform Renderer (A)
 // ============================================================================
 
-export interface WaveformRendererProps extends React.CanvasHTMLAttributes<HTMLCanvasElement> {
-  /** Normalized peak data to visualize */
-  peaks: number[] | null;
+export interface WaveformRendererProps extends AmplitudeScaleOptions, React.CanvasHTMLAttributes<HTMLCanvasElement> {
+  /**
+   * Peak data to visualize: flat normalized peaks (0-1 range) or a decoded peak pyramid
+   * Lists of either (one per channel) are drawn as stacked lanes
+   */
+  peaks: WaveformRendererPeaks | null;
+  /** How each bar summarizes the samples it covers ("minmax" draws asymmetric envelopes). Default: "average" */
+  peakMode?: WaveformPeakMode;
   /** Waveform appearance configuration (barColor, barWidth, playheadColor, etc.) */
   appearance?: AudioWaveformAppearance;
   /** Current playback time in seconds */
@@ -23,6 +132,44 @@ export interface WaveformRendererProps extends React.CanvasHTMLAttributes<HTMLCa
   onSeekDrag?: (time: number) => void;
   /** Callback when drag-to-seek ends (use to resume playback) */
   onSeekEnd?: (time: number) => void;
+  /** Selected time range in seconds (controlled, shows shaded overlay with edge handles) */
+  selection?: WaveformSelection | null;
+  /** Callback when user drags a selection handle or draws a new selection */
+  onSelectionChange?: (selection: WaveformSelection) => void;
+  /** Zoom level in pixels per second (fits the whole duration to the width when omitted) */
+  zoom?: number;
+  /** Upper bound for wheel/pinch zoom in pixels per second */
+  maxZoom?: number;
+  /** Callback when user zooms with ctrl/cmd + wheel, trackpad pinch or two-finger touch pinch */
+  onZoomChange?: (zoom: number) => void;
+  /** Page the view when currentTime moves the playhead out of view (paused after a manual scroll until it is visible again) */
+  followPlayhead?: boolean;
+  /** Labeled cue points and colored time spans drawn on top of the bars */
+  markers?: WaveformMarker[];
+  /** Callback when a marker line or label is clicked (or tapped) */
+  onMarkerClick?: (marker: WaveformMarker) => void;
+  /** Callback while a marker is dragged, with the moved marker (spans keep their length) */
+  onMarkerDrag?: (marker: WaveformMarker) => void;
+  /** Callback when a marker drag ends, with the final moved marker */
+  onMarkerDragEnd?: (marker: WaveformMarker) => void;
+  /** Editable labeled regions (controlled, drawn as shaded ranges with edge handles) */
+  regions?: WaveformRegion[];
+  /** Callback with the next region list after an add, resize, move or delete (makes regions editable) */
+  onRegionsChange?: (regions: WaveformRegion[], change: WaveformRegionChange) => void;
+  /** Whether regions may overlap while editing. Default: "allow" */
+  regionOverlap?: WaveformRegionOverlap;
+  /** Draw a new region by dragging on an empty part of the waveform (taps still seek). Default: false */
+  createRegionOnDrag?: boolean;
+  /** Callback when a region body is clicked (or tapped) */
+  onRegionClick?: (region: WaveformRegion) => void;
+  /** Draw a time ruler with adaptive ticks and labels along the bottom edge. Default: false */
+  showTimeline?: boolean;
+  /** Show a cursor line under the pointer (defaults to on when seek callbacks are provided) */
+  showHoverCursor?: boolean;
+  /** Render a tooltip above the hover cursor (e.g. the formatted time under the pointer) */
+  renderHoverTooltip?: (info: WaveformHoverInfo) => ReactNode;
+  /** Callback with the time under the pointer, or null when the pointer leaves */
+  onHover?: (time: number | null) => void;
 }
 
 export interface WaveformRendererRef {
@@ -30,13 +177,94 @@ export interface WaveformRendererRef {
 }
 
 export const WaveformRenderer = forwardRef<WaveformRendererRef, WaveformRendererProps>(function WaveformRenderer(
-  { peaks, appearance, currentTime, duration, onSeek, onSeekStart, onSeekDrag, onSeekEnd, onClick, style, ...props },
+  {
+    peaks,
+    peakMode = "average",
+    normalize,
+    scale,
+    dbFloor,
+    appearance,
+    currentTime,
+    duration,
+    onSeek,
+    onSeekStart,
+    onSeekDrag,
+    onSeekEnd,
+    selection,
+    onSelectionChange,
+    zoom,
+    maxZoom,
+    onZoomChange,
+    followPlayhead = true,
+    markers,
+    onMarkerClick,
+    onMarkerDrag,
+    onMarkerDragEnd,
+    regions,
+    onRegionsChange,
+    regionOverlap = "allow",
+    createRegionOnDrag = false,
+    onRegionClick,
+    showTimeline = false,
+    showHoverCursor,
+    renderHoverTooltip,
+    onHover,
+    onClick,
+    onPointerDown,
+    onPointerMove,
+    onPointerUp,
+    onPointerCancel,
+    onPointerLeave,
+    style,
+    ...props
+  },
   ref
 ) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const sizeRef = useRef({ width: 0, height: 0 });
   const rafRef = useRef<number>(0);
   const isDraggingRef = useRef(false);
+  // Pressed pointer (drag starts once it passes DRAG_THRESHOLD)
+  const pointerRef = useRef<{ id: number; startX: number; lastX: number; threshold: number } | null>(null);
+  const dragModeRef = useRef<DragMode>("seek");
+  // Anchor time for drawing a new selection or region (the edge that stays fixed while dragging)
+  const selectionAnchorRef = useRef(0);
+  // Marker being pressed or dragged, and the pointer's time offset from the marker start
+  const dragMarkerRef = useRef<{ marker: WaveformMarker; grabOffset: number } | null>(null);
+  // Label hit areas from the last draw, in canvas x coordinates (labels are measured while drawing)
+  const markerLabelRectsRef = useRef(new Map<string, { left: number; right: number }>());
+  // Region being pressed or dragged (snapshot at press), pointer offset from its start, and whether it was added yet
+  const dragRegionRef = useRef<{ region: WaveformRegion; grabOffset: number; added: boolean } | null>(null);
+  // Region edge focused via its keyboard slider (highlighted on the canvas)
+  const [focusedRegionEdge, setFocusedRegionEdge] = useState<RegionEdgeFocus | null>(null);
+  const regionSlidersRef = useRef<HTMLDivElement>(null);
+  // Set after drags that edit something so the trailing click doesn't also seek
+  const suppressClickRef = useRef(false);
+  // Cursor while hovering a selection handle ("ew-resize") or an interactive marker/region
+  const [pointerCursor, setPointerCursor] = useState<string | null>(null);
+  // Horizontal scroll position in content pixels (only meaningful when zoomed in)
+  const scrollLeftRef = useRef(0);
+  // Set by manual scrolling and zooming: follow-playhead pauses until the playhead is back in view
+  const manualScrollRef = useRef(false);
+  // currentTime of the last draw (follow-playhead only reacts when it changes)
+  const followTimeRef = useRef<number | undefined>(undefined);
+  // Scroll position when a pan drag started
+  const panStartScrollRef = useRef(0);
+  // Pressed touch/pen pointers (two of them pinch-zoom and pan)
+  const touchPointsRef = useRef(new Map<number, { x: number; y: number }>());
+  // Active pinch: time under the midpoint, and pointer distance and zoom when it started
+  const pinchRef = useRef<{ anchorTime: number; startDistance: number; startZoom: number } | null>(null);
+  // Time under the pointer (drawn as the hover cursor; null when the pointer is outside)
+  const hoverTimeRef = useRef<number | null>(null);
+  // Tooltip position (only tracked in state when a tooltip is rendered)
+  const [hoverTooltip, setHoverTooltip] = useState<{ info: WaveformHoverInfo; left: number; top: number } | null>(null);
+
+  // Interactive when any seek callback is provided
+  const isInteractive = (!!onSeek || !!onSeekStart || !!onSeekDrag || !!onSeekEnd) && !!duration && duration > 0;
+  const isHoverCursorVisible = showHoverCursor ?? isInteractive;
+
+  // Normalize input to pyramids so drawing can pick the level matching the bar count
+  const lanes = useMemo(() => toPeakLanes(peaks), [peaks]);
 
   useImperativeHandle(ref, () => ({
     canvas: canvasRef.current,
@@ -45,7 +273,7 @@ export const WaveformRenderer = forwardRef<WaveformRendererRef, WaveformRenderer
   const drawWaveform = useCallback(() => {
     const canvas = canvasRef.current;
     const { width, height } = sizeRef.current;
-    if (!canvas || !peaks || width === 0 || height === 0) return;
+    if (!canvas || !lanes || width === 0 || height === 0) return;
 
     const ctx = canvas.getContext("2d");
     if (!ctx) return;
@@ -70,40 +298,247 @@ export const WaveformRenderer = forwardRef<WaveformRendererRef, WaveformRenderer
     const barRadius = appearance?.barRadius ?? DEFAULT_WAVEFORM_APPEARANCE.barRadius;
     const barHeightScale = appearance?.barHeightScale ?? DEFAULT_WAVEFORM_APPEARANCE.barHeightScale;
 
+    const hasDuration = duration !== undefined && duration > 0;
+
+    // Follow playhead: jump a page when a currentTime change moves it out of view (not while dragging)
+    // Redraws with an unchanged time (zoom, scroll, hover) never move the view, and after a manual scroll
+    // following waits until the playhead is visible again
+    const previousTime = followTimeRef.current;
+    followTimeRef.current = currentTime;
+    if (followPlayhead && hasDuration && currentTime !== undefined && !isDraggingRef.current) {
+      const { contentWidth, offset } = getViewport(width, duration, zoom, scrollLeftRef.current);
+      const playheadContentX = (currentTime / duration) * contentWidth;
+      if (playheadContentX >= offset && playheadContentX <= offset + width) {
+        manualScrollRef.current = false;
+      } else if (currentTime !== previousTime && !manualScrollRef.current) {
+        scrollLeftRef.current = playheadContentX;
+      }
+    }
+
+    const { contentWidth, offset } = getViewport(width, duration, zoom, scrollLeftRef.current);
+    scrollLeftRef.current = offset;
+    // Map time to canvas x within the current viewport
+    const timeToX = (time: number) => (hasDuration ? (time / duration) * contentWidth - offset : 0);
+
     const totalBarWidth = barWidth + barGap;
     if (totalBarWidth <= 0) return;
-    const barsCount = Math.floor(width / totalBarWidth);
-    if (barsCount <= 0) return;
-    const step = peaks.length / barsCount;
+    const totalBarsCount = Math.floor(contentWidth / totalBarWidth);
+    if (totalBarsCount <= 0) return;
+    const levels = lanes.map((lane) => selectPeakLevel(lane, totalBarsCount));
+    // Loudest value across all lanes is the per-file reference (a quiet channel stays quiet)
+    const maxAmplitude = lanes.reduce((max, lane, laneIndex) => {
+      const level = levels[laneIndex];
+      return level ? Math.max(max, getPeakModeMax(lane, level, peakMode)) : max;
+    }, 0);
+    const toHeight = createAmplitudeScale({ normalize, scale, dbFloor }, maxAmplitude);
+    // Channels are stacked top to bottom in equal-height lanes
+    const laneHeight = height / Math.max(1, lanes.length);
+
+    // Only draw bars inside the viewport (aligned to the content grid so bars don't shimmer while scrolling)
+    const firstBar = Math.floor(offset / totalBarWidth);
+    const lastBar = Math.min(totalBarsCount, Math.ceil((offset + width) / totalBarWidth));
+
+    // Draws bars [from, to) of every lane with the current fillStyle
+    const drawBars = (from: number, to: number) => {
+      levels.forEach((level, laneIndex) => {
+        if (!level) return;
+        const levelLength = level.min.length;
+        const step = levelLength / totalBarsCount;
+        const laneCenter = laneIndex * laneHeight + laneHeight / 2;
+        const halfHeight = (laneHeight * barHeightScale) / 2;
+
+        for (let i = from; i < to; i++) {
+          // Downsampling: summarize the level blocks covered by each bar
+          const startIdx = Math.min(Math.floor(i * step), levelLength - 1);
+          const endIdx = Math.max(startIdx + 1, Math.min(Math.floor((i + 1) * step), levelLength));
+          const envelope = getPeakEnvelope(level, startIdx, endIdx, peakMode);
+          let top = laneCenter - toHeight(envelope.max) * halfHeight;
+          let bottom = laneCenter + toHeight(-envelope.min) * halfHeight;
+          // Keep silent stretches visible as a thin line
+          if (bottom - top < 2) {
+            const middle = (top + bottom) / 2;
+            top = middle - 1;
+            bottom = middle + 1;
+          }
+          const x = i * totalBarWidth - offset;
+
+          if (barRadius > 0) {
+            ctx.beginPath();
+            ctx.roundRect(x, top, barWidth, bottom - top, barRadius);
+            ctx.fill();
+          } else {
+            ctx.fillRect(x, top, barWidth, bottom - top);
+          }
+        }
+      });
+    };
 
     ctx.fillStyle = barColor;
+    drawBars(firstBar, lastBar);
 
-    for (let i = 0; i < barsCount; i++) {
-      const peakIndex = Math.min(Math.floor(i * step), peaks.length - 1);
-      const peak = peaks[peakIndex];
-      const barHeight = Math.max(peak * height * barHeightScale, 2);
-      const x = i * totalBarWidth;
-      const y = (height - barHeight) / 2;
+    // Played part: redraw bars left of the playhead in the progress color, clipped for sub-bar partial fill
+    const progressGradient = appearance?.progressGradient;
+    const progressColor = appearance?.progressColor;
+    if ((progressGradient?.length || progressColor) && currentTime !== undefined && hasDuration) {
+      const progressX = Math.min(width, timeToX(Math.max(0, Math.min(currentTime, duration))));
+      if (progressX > 0) {
+        if (progressGradient?.length) {
+          const gradient = ctx.createLinearGradient(0, 0, 0, height);
+          progressGradient.forEach((color, index) => {
+            gradient.addColorStop(progressGradient.length > 1 ? index / (progressGradient.length - 1) : 0, color);
+          });
+          ctx.fillStyle = gradient;
+        } else if (progressColor) {
+          ctx.fillStyle = progressColor;
+        }
 
-      if (barRadius > 0) {
+        ctx.save();
         ctx.beginPath();
-        ctx.roundRect(x, y, barWidth, barHeight, barRadius);
-        ctx.fill();
-      } else {
-        ctx.fillRect(x, y, barWidth, barHeight);
+        ctx.rect(0, 0, progressX, height);
+        ctx.clip();
+        drawBars(firstBar, Math.min(lastBar, Math.ceil((progressX + offset) / totalBarWidth)));
+        ctx.restore();
+      }
+    }
+
+    // Render regions: translucent fill, edge handles (focused edge doubled) and label
+    if (regions?.length && hasDuration) {
+      const defaultRegionColor = appearance?.regionColor ?? DEFAULT_REGION_APPEARANCE.regionColor;
+      const regionOpacity = appearance?.regionOpacity ?? DEFAULT_REGION_APPEARANCE.regionOpacity;
+      const regionHandleWidth = appearance?.regionHandleWidth ?? DEFAULT_REGION_APPEARANCE.regionHandleWidth;
+      ctx.font = appearance?.markerFont ?? DEFAULT_MARKER_APPEARANCE.markerFont;
+      ctx.textBaseline = "top";
+
+      for (const region of regions) {
+        const startX = timeToX(Math.max(0, Math.min(region.start, duration)));
+        const endX = timeToX(Math.max(0, Math.min(region.end, duration)));
+        if (endX < 0 || startX > width) continue;
+        const color = region.color ?? defaultRegionColor;
+
+        ctx.save();
+        ctx.globalAlpha = regionOpacity;
+        ctx.fillStyle = color;
+        ctx.fillRect(startX, 0, endX - startX, height);
+        ctx.restore();
+
+        ctx.fillStyle = color;
+        const focusedEdge = focusedRegionEdge?.id === region.id ? focusedRegionEdge.edge : null;
+        const startWidth = focusedEdge === "start" ? regionHandleWidth * 2 : regionHandleWidth;
+        const endWidth = focusedEdge === "end" ? regionHandleWidth * 2 : regionHandleWidth;
+        ctx.fillRect(startX - startWidth / 2, 0, startWidth, height);
+        ctx.fillRect(endX - endWidth / 2, 0, endWidth, height);
+        if (region.label) {
+          ctx.fillText(region.label, startX + regionHandleWidth + 3, 2);
+        }
       }
     }
 
+    // Render selection overlay and edge handles (below playhead)
+    if (selection && hasDuration) {
+      const selectionColor = appearance?.selectionColor ?? DEFAULT_SELECTION_APPEARANCE.selectionColor;
+      const handleColor = appearance?.selectionHandleColor ?? DEFAULT_SELECTION_APPEARANCE.selectionHandleColor;
+      const handleWidth = appearance?.selectionHandleWidth ?? DEFAULT_SELECTION_APPEARANCE.selectionHandleWidth;
+
+      const startX = timeToX(Math.max(0, Math.min(selection.start, duration)));
+      const endX = timeToX(Math.max(0, Math.min(selection.end, duration)));
+
+      ctx.fillStyle = selectionColor;
+      ctx.fillRect(startX, 0, endX - startX, height);
+
+      // Handles are kept inside the canvas so they remain grabbable at the edges
+      ctx.fillStyle = handleColor;
+      ctx.fillRect(Math.min(Math.max(startX - handleWidth / 2, 0), width - handleWidth), 0, handleWidth, height);
+      ctx.fillRect(Math.min(Math.max(endX - handleWidth / 2, 0), width - handleWidth), 0, handleWidth, height);
+    }
+
+    // Render markers: translucent spans, then lines and labels on top
+    markerLabelRectsRef.current.clear();
+    if (markers?.length && hasDuration) {
+      const defaultMarkerColor = appearance?.markerColor ?? DEFAULT_MARKER_APPEARANCE.markerColor;
+      const markerWidth = appearance?.markerWidth ?? DEFAULT_MARKER_APPEARANCE.markerWidth;
+      const spanOpacity = appearance?.markerSpanOpacity ?? DEFAULT_MARKER_APPEARANCE.markerSpanOpacity;
+      const clampTime = (time: number) => Math.max(0, Math.min(time, duration));
+
+      ctx.save();
+      ctx.globalAlpha = spanOpacity;
+      for (const marker of markers) {
+        if (marker.end === undefined) continue;
+        const startX = timeToX(clampTime(marker.time));
+        const endX = timeToX(clampTime(marker.end));
+        ctx.fillStyle = marker.color ?? defaultMarkerColor;
+        ctx.fillRect(startX, 0, endX - startX, height);
+      }
+      ctx.restore();
+
+      ctx.font = appearance?.markerFont ?? DEFAULT_MARKER_APPEARANCE.markerFont;
+      ctx.textBaseline = "top";
+      for (const marker of markers) {
+        const x = timeToX(clampTime(marker.time));
+        if (x < -width || x > width) continue;
+        ctx.fillStyle = marker.color ?? defaultMarkerColor;
+        ctx.fillRect(x - markerWidth / 2, 0, markerWidth, height);
+        if (marker.label) {
+          const labelX = x + markerWidth / 2 + 3;
+          ctx.fillText(marker.label, labelX, 2);
+          markerLabelRectsRef.current.set(marker.id, {
+            left: x,
+            right: labelX + ctx.measureText(marker.label).width,
+          });
+        }
+      }
+    }
+
+    // Render timeline ruler along the bottom (same viewport mapping as the bars)
+    if (showTimeline && hasDuration) {
+      drawTimeline(ctx, {
+        pixelsPerSecond: contentWidth / duration,
+        offset,
+        width,
+        height,
+        duration,
+        color: appearance?.timelineColor ?? DEFAULT_TIMELINE_APPEARANCE.timelineColor,
+        font: appearance?.timelineFont ?? DEFAULT_TIMELINE_APPEARANCE.timelineFont,
+      });
+    }
+
+    // Render hover cursor (below playhead, hidden while dragging)
+    const hoverTime = hoverTimeRef.current;
+    if (isHoverCursorVisible && hoverTime !== null && hasDuration && !isDraggingRef.current) {
+      const hoverX = timeToX(hoverTime);
+      const hoverColor = appearance?.hoverCursorColor ?? DEFAULT_HOVER_APPEARANCE.hoverCursorColor;
+      const hoverWidth = appearance?.hoverCursorWidth ?? DEFAULT_HOVER_APPEARANCE.hoverCursorWidth;
+
+      ctx.fillStyle = hoverColor;
+      ctx.fillRect(hoverX - hoverWidth / 2, 0, hoverWidth, height);
+    }
+
     // Render playhead (only when currentTime and duration are available)
-    if (currentTime !== undefined && duration !== undefined && duration > 0) {
-      const playheadX = (currentTime / duration) * width;
+    if (currentTime !== undefined && hasDuration) {
+      const playheadX = timeToX(currentTime);
       const playheadColor = appearance?.playheadColor ?? DEFAULT_PLAYHEAD_APPEARANCE.playheadColor;
       const playheadWidth = appearance?.playheadWidth ?? DEFAULT_PLAYHEAD_APPEARANCE.playheadWidth;
 
       ctx.fillStyle = playheadColor;
       ctx.fillRect(playheadX - playheadWidth / 2, 0, playheadWidth, height);
     }
-  }, [peaks, appearance, currentTime, duration]);
+  }, [
+    lanes,
+    peakMode,
+    normalize,
+    scale,
+    dbFloor,
+    appearance,
+    currentTime,
+    duration,
+    selection,
+    zoom,
+    followPlayhead,
+    markers,
+    regions,
+    focusedRegionEdge,
+    showTimeline,
+    isHoverCursorVisible,
+  ]);
 
   // ResizeObserver with RAF throttling
   useEffect(() => {
@@ -135,80 +570,618 @@ export const WaveformRenderer = forwardRef<WaveformRendererRef, WaveformRenderer
     drawWaveform();
   }, [drawWaveform]);
 
-  // Calculate time from mouse/touch position
+  // Calculate time from pointer position
   const getTimeFromPosition = useCallback(
     (clientX: number): number => {
       const canvas = canvasRef.current;
       if (!canvas || !duration || duration <= 0) return 0;
 
       const rect = canvas.getBoundingClientRect();
-      const x = clientX - rect.left;
-      const ratio = Math.max(0, Math.min(x / rect.width, 1));
+      const { contentWidth, offset } = getViewport(rect.width, duration, zoom, scrollLeftRef.current);
+      const x = clientX - rect.left + offset;
+      const ratio = Math.max(0, Math.min(x / contentWidth, 1));
       return ratio * duration;
     },
-    [duration]
+    [duration, zoom]
+  );
+
+  // Scroll the zoomed view (pauses follow-playhead) and redraw on the next frame
+  const scrollView = useCallback(
+    (scrollLeft: number) => {
+      scrollLeftRef.current = scrollLeft;
+      manualScrollRef.current = true;
+      cancelAnimationFrame(rafRef.current);
+      rafRef.current = requestAnimationFrame(drawWaveform);
+    },
+    [drawWaveform]
   );
 
-  // Drag-to-seek: document-level handlers for dragging outside bounds
+  // Wheel: ctrl/cmd + wheel (and trackpad pinch) zooms around the pointer, horizontal wheel scrolls
+  // Native listener because React wheel handlers are passive and cannot preventDefault
   useEffect(() => {
-    const handleMouseMove = (e: MouseEvent) => {
-      if (!isDraggingRef.current) return;
-      const time = getTimeFromPosition(e.clientX);
-      onSeekDrag?.(time);
+    const canvas = canvasRef.current;
+    if (!canvas || !duration || duration <= 0) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      const rect = canvas.getBoundingClientRect();
+      const { contentWidth, offset } = getViewport(rect.width, duration, zoom, scrollLeftRef.current);
+
+      if ((e.ctrlKey || e.metaKey) && onZoomChange) {
+        e.preventDefault();
+        const fitZoom = rect.width / duration;
+        const currentZoom = contentWidth / duration;
+        const nextZoom = Math.max(
+          fitZoom,
+          Math.min(maxZoom ?? Number.POSITIVE_INFINITY, currentZoom * Math.exp(-e.deltaY * WHEEL_ZOOM_SENSITIVITY))
+        );
+        // Keep the time under the pointer fixed while zooming
+        const pointerX = e.clientX - rect.left;
+        const anchorTime = ((pointerX + offset) / contentWidth) * duration;
+        scrollLeftRef.current = anchorTime * nextZoom - pointerX;
+        manualScrollRef.current = true;
+        onZoomChange(nextZoom);
+        return;
+      }
+
+      const delta = e.deltaX !== 0 ? e.deltaX : e.shiftKey ? e.deltaY : 0;
+      if (delta === 0 || contentWidth <= rect.width) return;
+      e.preventDefault();
+      scrollView(Math.max(0, Math.min(offset + delta, contentWidth - rect.width)));
     };
 
-    const handleMouseUp = (e: MouseEvent) => {
-      if (!isDraggingRef.current) return;
+    canvas.addEventListener("wheel", handleWheel, { passive: false });
+    return () => canvas.removeEventListener("wheel", handleWheel);
+  }, [duration, zoom, maxZoom, onZoomChange, scrollView]);
+
+  // Zoom to the pinch distance around the fingers' midpoint (moving both fingers pans)
+  const updatePinch = useCallback(() => {
+    const canvas = canvasRef.current;
+    const pinch = pinchRef.current;
+    const [a, b] = Array.from(touchPointsRef.current.values());
+    if (!canvas || !pinch || !a || !b || !duration || duration <= 0) return;
+
+    const rect = canvas.getBoundingClientRect();
+    const distance = Math.max(1, Math.hypot(a.x - b.x, a.y - b.y));
+    const midX = (a.x + b.x) / 2 - rect.left;
+    const currentZoom = getViewport(rect.width, duration, zoom, 0).contentWidth / duration;
+    const nextZoom = onZoomChange
+      ? Math.max(
+          rect.width / duration,
+          Math.min(maxZoom ?? Number.POSITIVE_INFINITY, (pinch.startZoom * distance) / pinch.startDistance)
+        )
+      : currentZoom;
+
+    // Keep the time under the midpoint fixed
+    const scrollLeft = pinch.anchorTime * nextZoom - midX;
+    if (nextZoom !== currentZoom) {
+      // Drawn with the new zoom once the parent applies it (like wheel zoom)
+      scrollLeftRef.current = scrollLeft;
+      manualScrollRef.current = true;
+      onZoomChange?.(nextZoom);
+    } else {
+      scrollView(scrollLeft);
+    }
+  }, [duration, zoom, maxZoom, onZoomChange, scrollView]);
+
+  // Forget a lifted touch/pen pointer; the pinch ends when fewer than two remain
+  const releaseTouchPoint = useCallback((pointerId: number) => {
+    touchPointsRef.current.delete(pointerId);
+    if (touchPointsRef.current.size < 2) {
+      pinchRef.current = null;
+    }
+  }, []);
+
+  // Find the selection handle under the pointer (start edge wins when both overlap)
+  const getHandleAtPosition = useCallback(
+    (clientX: number, hitSlop = SELECTION_HANDLE_HIT_SLOP): "start" | "end" | null => {
+      const canvas = canvasRef.current;
+      if (!canvas || !selection || !onSelectionChange || !duration || duration <= 0) return null;
+
+      const rect = canvas.getBoundingClientRect();
+      const { contentWidth, offset } = getViewport(rect.width, duration, zoom, scrollLeftRef.current);
+      const startX = rect.left + (selection.start / duration) * contentWidth - offset;
+      const endX = rect.left + (selection.end / duration) * contentWidth - offset;
+
+      if (Math.abs(clientX - startX) <= hitSlop) return "start";
+      if (Math.abs(clientX - endX) <= hitSlop) return "end";
+      return null;
+    },
+    [selection, onSelectionChange, duration, zoom]
+  );
+
+  // Find the interactive marker under the pointer (line or label, topmost first)
+  const getMarkerAtPosition = useCallback(
+    (clientX: number, clientY: number, hitSlop = SELECTION_HANDLE_HIT_SLOP): WaveformMarker | null => {
+      const canvas = canvasRef.current;
+      if (!canvas || !markers?.length || (!onMarkerClick && !onMarkerDrag) || !duration || duration <= 0) return null;
+
+      const rect = canvas.getBoundingClientRect();
+      const { contentWidth, offset } = getViewport(rect.width, duration, zoom, scrollLeftRef.current);
+      const x = clientX - rect.left;
+      const y = clientY - rect.top;
+
+      for (let i = markers.length - 1; i >= 0; i--) {
+        const marker = markers[i];
+        const markerX = (Math.max(0, Math.min(marker.time, duration)) / duration) * contentWidth - offset;
+        if (Math.abs(x - markerX) <= hitSlop) return marker;
+        const label = markerLabelRectsRef.current.get(marker.id);
+        if (label && x >= label.left && x <= label.right && y <= MARKER_LABEL_HEIGHT) return marker;
+      }
+      return null;
+    },
+    [markers, onMarkerClick, onMarkerDrag, duration, zoom]
+  );
+
+  const isRegionEditable = useCallback(
+    (region: WaveformRegion) => !!onRegionsChange && region.editable !== false,
+    [onRegionsChange]
+  );
+
+  // Find the region part under the pointer: editable edges first (topmost region wins), then bodies
+  const getRegionAtPosition = useCallback(
+    (clientX: number, hitSlop = SELECTION_HANDLE_HIT_SLOP) => {
+      const canvas = canvasRef.current;
+      if (!canvas || !regions?.length || (!onRegionsChange && !onRegionClick) || !duration || duration <= 0) {
+        return null;
+      }
+
+      const rect = canvas.getBoundingClientRect();
+      const { contentWidth, offset } = getViewport(rect.width, duration, zoom, scrollLeftRef.current);
+      const x = clientX - rect.left + offset;
+      const toX = (time: number) => (Math.max(0, Math.min(time, duration)) / duration) * contentWidth;
+
+      for (let i = regions.length - 1; i >= 0; i--) {
+        const region = regions[i];
+        if (!isRegionEditable(region)) continue;
+        if (Math.abs(x - toX(region.start)) <= hitSlop) return { region, part: "start" as const };
+        if (Math.abs(x - toX(region.end)) <= hitSlop) return { region, part: "end" as const };
+      }
+      for (let i = regions.length - 1; i >= 0; i--) {
+        const region = regions[i];
+        if (x > toX(region.start) && x < toX(region.end)) return { region, part: "body" as const };
+      }
+      return null;
+    },
+    [regions, onRegionsChange, onRegionClick, duration, zoom, isRegionEditable]
+  );
+
+  // Report an edited region with the next region list ("add" the first time a drawn region is reported)
+  const commitRegion = useCallback(
+    (region: WaveformRegion) => {
+      const drag = dragRegionRef.current;
+      const type = drag && !drag.added ? "add" : "update";
+      if (drag) drag.added = true;
+      onRegionsChange?.(upsertRegion(regions ?? [], region), { type, region });
+    },
+    [regions, onRegionsChange]
+  );
+
+  // Apply pointer time to the selection edge being dragged (edges never cross)
+  const updateSelection = useCallback(
+    (time: number) => {
+      if (!onSelectionChange) return;
+
+      switch (dragModeRef.current) {
+        case "selection-start":
+          if (selection) onSelectionChange({ start: Math.min(time, selection.end), end: selection.end });
+          break;
+        case "selection-end":
+          if (selection) onSelectionChange({ start: selection.start, end: Math.max(time, selection.start) });
+          break;
+        case "selection-new": {
+          // A drag back onto its starting point would report an empty {t, t} range
+          const anchor = selectionAnchorRef.current;
+          if (time !== anchor) onSelectionChange({ start: Math.min(anchor, time), end: Math.max(anchor, time) });
+          break;
+        }
+      }
+    },
+    [selection, onSelectionChange]
+  );
+
+  const isDragEnabled = !!onSeekStart || !!onSeekDrag || !!onSeekEnd;
+  // Selection can be edited via handles, or drawn by dragging outside them
+  const isSelectionEnabled = !!onSelectionChange;
+  const isHoverEnabled = isHoverCursorVisible || !!renderHoverTooltip || !!onHover;
+
+  // Redraw hover cursor and report hover time (null clears it)
+  const updateHover = useCallback(
+    (time: number | null, clientX = 0) => {
+      if (hoverTimeRef.current === time) return;
+      hoverTimeRef.current = time;
+      cancelAnimationFrame(rafRef.current);
+      rafRef.current = requestAnimationFrame(drawWaveform);
+      onHover?.(time);
+
+      const canvas = canvasRef.current;
+      if (!renderHoverTooltip || !canvas || time === null) {
+        setHoverTooltip(null);
+        return;
+      }
+      const rect = canvas.getBoundingClientRect();
+      setHoverTooltip({
+        info: { time, formattedTime: formatTime(time), x: clientX - rect.left },
+        left: clientX,
+        top: rect.top,
+      });
+    },
+    [renderHoverTooltip, onHover, drawWaveform]
+  );
+
+  // Report pointer time to whatever the current drag is driving
+  const applyDrag = useCallback(
+    (time: number) => {
+      const mode = dragModeRef.current;
+      switch (mode) {
+        case "seek":
+          onSeekDrag?.(time);
+          break;
+        case "marker": {
+          const drag = dragMarkerRef.current;
+          if (drag && duration) onMarkerDrag?.(moveMarker(drag.marker, drag.grabOffset, time, duration));
+          break;
+        }
+        case "region-start":
+        case "region-end":
+        case "region-move":
+        case "region-new": {
+          const drag = dragRegionRef.current;
+          if (!drag || !duration) break;
+          const others = regions ?? [];
+          if (mode === "region-move") {
+            commitRegion(moveRegion(others, drag.region, time - drag.grabOffset, duration, regionOverlap));
+          } else if (mode === "region-new") {
+            commitRegion(spanRegion(others, drag.region, selectionAnchorRef.current, time, duration, regionOverlap));
+          } else {
+            const edge = mode === "region-start" ? "start" : "end";
+            commitRegion(resizeRegion(others, drag.region, edge, time, duration, regionOverlap));
+          }
+          break;
+        }
+        default:
+          updateSelection(time);
+      }
+    },
+    [duration, regions, regionOverlap, onSeekDrag, onMarkerDrag, commitRegion, updateSelection]
+  );
+
+  // Drag starts once the press passes the tap threshold (immediately for mice, except on clickable targets)
+  const startDrag = useCallback(
+    (clientX: number) => {
+      const mode = dragModeRef.current;
+      isDraggingRef.current = true;
+      document.body.style.cursor =
+        mode === "seek" || mode === "marker" || mode === "region-move" || mode === "pan" ? "grabbing" : "ew-resize";
+      document.body.style.userSelect = "none";
+      if (mode === "pan") {
+        const pointer = pointerRef.current;
+        if (pointer) scrollView(panStartScrollRef.current - (clientX - pointer.startX));
+        return;
+      }
+      if (mode === "seek") {
+        onSeekStart?.();
+      }
+      applyDrag(getTimeFromPosition(clientX));
+    },
+    [getTimeFromPosition, applyDrag, scrollView, onSeekStart]
+  );
+
+  // Focus a region's start slider so Delete and arrow keys act on it right away
+  const focusRegionSlider = useCallback((id: string) => {
+    const slider = Array.from(regionSlidersRef.current?.querySelectorAll<HTMLElement>("[data-region-id]") ?? []).find(
+      (element) => element.dataset.regionId === id
+    );
+    slider?.focus();
+  }, []);
+
+  // Pointer up/cancel: ends the drag; a tap (no drag) clicks the marker/region and seeks to the tapped time
+  // Cancelled presses (e.g. the browser took over for vertical scrolling) never start a drag
+  const finishPointer = useCallback(
+    (pointerId: number, clientX: number, cancelled: boolean) => {
+      const pointer = pointerRef.current;
+      if (!pointer || pointer.id !== pointerId) return;
+      pointerRef.current = null;
+      const markerDrag = dragMarkerRef.current;
+      dragMarkerRef.current = null;
+
+      if (!isDraggingRef.current) {
+        const mode = dragModeRef.current;
+        dragModeRef.current = "seek";
+        const regionDrag = dragRegionRef.current;
+        dragRegionRef.current = null;
+        if (cancelled) return;
+        if (mode === "marker" && markerDrag) {
+          onMarkerClick?.(markerDrag.marker);
+          return;
+        }
+        if (mode === "region-move" && regionDrag) {
+          onRegionClick?.(regionDrag.region);
+          if (isRegionEditable(regionDrag.region)) {
+            focusRegionSlider(regionDrag.region.id);
+          }
+        }
+        // Taps inside regions and on empty space seek (click-to-seek handles it without drag callbacks)
+        if (
+          (mode !== "seek" && mode !== "region-move" && mode !== "region-new" && mode !== "selection-new") ||
+          !isDragEnabled
+        )
+          return;
+        startDrag(clientX);
+      }
+
       isDraggingRef.current = false;
       document.body.style.cursor = "";
       document.body.style.userSelect = "";
+      // pointercancel coordinates are unreliable, so use the last known position
+      const time = getTimeFromPosition(cancelled ? pointer.lastX : clientX);
+      const mode = dragModeRef.current;
+      if (mode === "seek") {
+        onSeekEnd?.(time);
+      } else if (mode === "pan") {
+        suppressClickRef.current = true;
+      } else if (mode === "marker") {
+        if (markerDrag && duration)
+          onMarkerDragEnd?.(moveMarker(markerDrag.marker, markerDrag.grabOffset, time, duration));
+        suppressClickRef.current = true;
+      } else {
+        applyDrag(time);
+        suppressClickRef.current = true;
+      }
+      dragModeRef.current = "seek";
+      dragRegionRef.current = null;
+    },
+    [
+      duration,
+      isDragEnabled,
+      getTimeFromPosition,
+      applyDrag,
+      startDrag,
+      isRegionEditable,
+      focusRegionSlider,
+      onSeekEnd,
+      onMarkerClick,
+      onMarkerDragEnd,
+      onRegionClick,
+    ]
+  );
+
+  const isMarkerInteractive = !!onMarkerClick || !!onMarkerDrag;
+  const isRegionInteractive = !!regions?.length && (!!onRegionsChange || !!onRegionClick);
+  const isRegionCreationEnabled = createRegionOnDrag && !!onRegionsChange;
+  // Zoomed views pan by dragging (when nothing else uses the drag) and pinch-zoom with two fingers
+  const isPanZoomEnabled = zoom !== undefined || !!onZoomChange;
+
+  // Pointer down: picks marker, region, selection edit or drag-to-seek and captures the pointer (mouse, touch and pen)
+  const handlePointerDown = useCallback(
+    (e: React.PointerEvent<HTMLCanvasElement>) => {
+      onPointerDown?.(e);
+      if (!duration || duration <= 0) return;
+
+      const rect = e.currentTarget.getBoundingClientRect();
+      if (e.pointerType !== "mouse" && isPanZoomEnabled) {
+        touchPointsRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+        if (touchPointsRef.current.size === 2) {
+          // A second finger turns the gesture into pinch/pan: drop the first finger's press or drag
+          const pointer = pointerRef.current;
+          if (pointer) finishPointer(pointer.id, pointer.lastX, true);
+
+          const [a, b] = Array.from(touchPointsRef.current.values());
+          const { contentWidth, offset } = getViewport(rect.width, duration, zoom, scrollLeftRef.current);
+          pinchRef.current = {
+            anchorTime: (((a.x + b.x) / 2 - rect.left + offset) / contentWidth) * duration,
+            startDistance: Math.max(1, Math.hypot(a.x - b.x, a.y - b.y)),
+            startZoom: contentWidth / duration,
+          };
+          e.currentTarget.setPointerCapture?.(e.pointerId);
+          return;
+        }
+      }
+      if (!e.isPrimary || e.button !== 0) return;
+
+      let threshold = DRAG_THRESHOLD[e.pointerType] ?? 0;
+      const clickableThreshold = Math.max(threshold, CLICKABLE_DRAG_THRESHOLD);
       const time = getTimeFromPosition(e.clientX);
-      onSeekEnd?.(time);
-    };
+      // Markers are drawn on top, then edges (regions, selection) take priority over bodies and seeking
+      const hitSlop = e.pointerType === "mouse" ? SELECTION_HANDLE_HIT_SLOP : SELECTION_HANDLE_TOUCH_HIT_SLOP;
+      const marker = getMarkerAtPosition(e.clientX, e.clientY, hitSlop);
+      const regionHit = marker ? null : getRegionAtPosition(e.clientX, hitSlop);
+      const regionEdge = regionHit && regionHit.part !== "body" ? regionHit : null;
+      const handle = marker || regionEdge ? null : getHandleAtPosition(e.clientX, hitSlop);
+      dragRegionRef.current = null;
 
-    // Only add listeners if drag-to-seek is enabled
-    if (onSeekDrag || onSeekEnd) {
-      document.addEventListener("mousemove", handleMouseMove);
-      document.addEventListener("mouseup", handleMouseUp);
-    }
+      if (marker) {
+        dragModeRef.current = "marker";
+        dragMarkerRef.current = { marker, grabOffset: time - marker.time };
+        const isDraggable = !!onMarkerDrag && marker.draggable !== false;
+        threshold = isDraggable ? clickableThreshold : Number.POSITIVE_INFINITY;
+      } else if (regionEdge) {
+        dragModeRef.current = regionEdge.part === "start" ? "region-start" : "region-end";
+        dragRegionRef.current = { region: regionEdge.region, grabOffset: 0, added: true };
+      } else if (handle) {
+        dragModeRef.current = handle === "start" ? "selection-start" : "selection-end";
+      } else if (regionHit) {
+        dragModeRef.current = "region-move";
+        dragRegionRef.current = { region: regionHit.region, grabOffset: time - regionHit.region.start, added: true };
+        threshold = isRegionEditable(regionHit.region) ? clickableThreshold : Number.POSITIVE_INFINITY;
+      } else if (onSelectionChange && (!selection || !isRegionCreationEnabled)) {
+        // Draws a new range (replacing the current one) once past the click threshold; taps still seek
+        // With region drawing also enabled, an existing selection leaves empty-space drags to regions
+        dragModeRef.current = "selection-new";
+        selectionAnchorRef.current = time;
+        threshold = clickableThreshold;
+      } else if (isRegionCreationEnabled && !(regionOverlap === "prevent" && isInsideRegion(regions ?? [], time))) {
+        dragModeRef.current = "region-new";
+        dragRegionRef.current = {
+          region: { id: createRegionId(regions ?? []), start: time, end: time },
+          grabOffset: 0,
+          added: false,
+        };
+        selectionAnchorRef.current = time;
+        threshold = clickableThreshold;
+      } else if (isDragEnabled) {
+        dragModeRef.current = "seek";
+      } else if (getViewport(rect.width, duration, zoom, 0).contentWidth > rect.width) {
+        // Nothing else uses the drag: pan the zoomed view (taps still click-to-seek)
+        dragModeRef.current = "pan";
+        panStartScrollRef.current = scrollLeftRef.current;
+        threshold = clickableThreshold;
+      } else {
+        return;
+      }
 
-    return () => {
-      document.removeEventListener("mousemove", handleMouseMove);
-      document.removeEventListener("mouseup", handleMouseUp);
-    };
-  }, [getTimeFromPosition, onSeekDrag, onSeekEnd]);
+      // Keep receiving moves outside the canvas until release
+      e.currentTarget.setPointerCapture?.(e.pointerId);
+      pointerRef.current = { id: e.pointerId, startX: e.clientX, lastX: e.clientX, threshold };
+      if (threshold === 0) {
+        startDrag(e.clientX);
+      }
+    },
+    [
+      onPointerDown,
+      duration,
+      zoom,
+      isPanZoomEnabled,
+      selection,
+      regions,
+      regionOverlap,
+      onSelectionChange,
+      onMarkerDrag,
+      isDragEnabled,
+      isRegionCreationEnabled,
+      isRegionEditable,
+      getTimeFromPosition,
+      getMarkerAtPosition,
+      getRegionAtPosition,
+      getHandleAtPosition,
+      startDrag,
+      finishPointer,
+    ]
+  );
 
-  // Mouse down handler: starts drag or simple click
-  const handleMouseDown = useCallback(
-    (e: React.MouseEvent<HTMLCanvasElement>) => {
-      if (!duration || duration <= 0) return;
+  // Pointer move: drives the active drag, otherwise updates hover state (mouse and pen only)
+  const handlePointerMove = useCallback(
+    (e: React.PointerEvent<HTMLCanvasElement>) => {
+      onPointerMove?.(e);
 
-      // If drag-to-seek callbacks are provided, start dragging
-      if (onSeekStart || onSeekDrag || onSeekEnd) {
-        isDraggingRef.current = true;
-        document.body.style.cursor = "grabbing";
-        document.body.style.userSelect = "none";
-        onSeekStart?.();
-        const time = getTimeFromPosition(e.clientX);
-        onSeekDrag?.(time);
+      const touchPoint = touchPointsRef.current.get(e.pointerId);
+      if (touchPoint) {
+        touchPoint.x = e.clientX;
+        touchPoint.y = e.clientY;
+        if (pinchRef.current) {
+          updatePinch();
+          return;
+        }
+      }
+
+      const pointer = pointerRef.current;
+      if (pointer && pointer.id === e.pointerId) {
+        pointer.lastX = e.clientX;
+        if (!isDraggingRef.current) {
+          if (Math.abs(e.clientX - pointer.startX) >= pointer.threshold) {
+            startDrag(e.clientX);
+          }
+          return;
+        }
+        if (dragModeRef.current === "pan") {
+          scrollView(panStartScrollRef.current - (e.clientX - pointer.startX));
+          return;
+        }
+        applyDrag(getTimeFromPosition(e.clientX));
+        return;
+      }
+
+      if (e.pointerType === "touch") return;
+      if (isSelectionEnabled || isMarkerInteractive || isRegionInteractive) {
+        const marker = getMarkerAtPosition(e.clientX, e.clientY);
+        const regionHit = marker ? null : getRegionAtPosition(e.clientX);
+        if (marker) {
+          setPointerCursor(onMarkerDrag && marker.draggable !== false ? "grab" : "pointer");
+        } else if (regionHit && regionHit.part !== "body") {
+          setPointerCursor("ew-resize");
+        } else if (getHandleAtPosition(e.clientX)) {
+          setPointerCursor("ew-resize");
+        } else if (regionHit) {
+          setPointerCursor(isRegionEditable(regionHit.region) ? "move" : onRegionClick ? "pointer" : null);
+        } else {
+          setPointerCursor(null);
+        }
+      }
+      if (isHoverEnabled && duration && duration > 0) {
+        updateHover(getTimeFromPosition(e.clientX), e.clientX);
       }
     },
-    [duration, onSeekStart, onSeekDrag, onSeekEnd, getTimeFromPosition]
+    [
+      onPointerMove,
+      isSelectionEnabled,
+      isMarkerInteractive,
+      isRegionInteractive,
+      isHoverEnabled,
+      duration,
+      onMarkerDrag,
+      onRegionClick,
+      startDrag,
+      applyDrag,
+      updatePinch,
+      scrollView,
+      isRegionEditable,
+      getMarkerAtPosition,
+      getRegionAtPosition,
+      getHandleAtPosition,
+      getTimeFromPosition,
+      updateHover,
+    ]
   );
 
-  const isDragEnabled = !!onSeekStart || !!onSeekDrag || !!onSeekEnd;
+  const handlePointerUp = useCallback(
+    (e: React.PointerEvent<HTMLCanvasElement>) => {
+      onPointerUp?.(e);
+      releaseTouchPoint(e.pointerId);
+      finishPointer(e.pointerId, e.clientX, false);
+    },
+    [onPointerUp, releaseTouchPoint, finishPointer]
+  );
+
+  const handlePointerCancel = useCallback(
+    (e: React.PointerEvent<HTMLCanvasElement>) => {
+      onPointerCancel?.(e);
+      releaseTouchPoint(e.pointerId);
+      finishPointer(e.pointerId, e.clientX, true);
+    },
+    [onPointerCancel, releaseTouchPoint, finishPointer]
+  );
+
+  const handlePointerLeave = useCallback(
+    (e: React.PointerEvent<HTMLCanvasElement>) => {
+      onPointerLeave?.(e);
+      if (isHoverEnabled) {
+        updateHover(null);
+      }
+    },
+    [onPointerLeave, isHoverEnabled, updateHover]
+  );
 
   // Click handler for simple seeking (only when not dragging)
   const handleClick = useCallback(
     (e: React.MouseEvent<HTMLCanvasElement>) => {
-      // Skip if drag-to-seek is enabled (handled by mouse events)
-      if (!isDragEnabled && onSeek && duration && duration > 0) {
+      // Clicks that end a marker/region/selection drag never seek
+      const wasDragging = suppressClickRef.current;
+      suppressClickRef.current = false;
+      // Skip if drag-to-seek is enabled (handled by pointer events) or the click landed on a selection handle
+      if (
+        !wasDragging &&
+        !isDragEnabled &&
+        onSeek &&
+        duration &&
+        duration > 0 &&
+        !getHandleAtPosition(e.clientX) &&
+        !getMarkerAtPosition(e.clientX, e.clientY)
+      ) {
         const time = getTimeFromPosition(e.clientX);
         onSeek(time);
       }
       onClick?.(e);
     },
-    [onSeek, duration, isDragEnabled, getTimeFromPosition, onClick]
+    [onSeek, duration, isDragEnabled, getTimeFromPosition, getHandleAtPosition, getMarkerAtPosition, onClick]
   );
 
   // Keyboard handler: Arrow keys seek 5s, Home/End jump to start/end
@@ -241,36 +1214,70 @@ export const WaveformRenderer = forwardRef<WaveformRendererRef, WaveformRenderer
     [onSeek, duration, currentTime]
   );
 
-  // Format time for screen readers (aria-valuetext): "1 minute 30 seconds"
-  const formatTimeForScreen = (seconds: number): string => {
-    const mins = Math.floor(seconds / 60);
-    const secs = Math.floor(seconds % 60);
-    if (mins > 0) {
-      return `${mins} minute${mins > 1 ? "s" : ""} ${secs} second${secs !== 1 ? "s" : ""}`;
-    }
-    return `${secs} second${secs !== 1 ? "s" : ""}`;
-  };
-
-  // Interactive when any seek callback is provided
-  const isInteractive = (!!onSeek || !!onSeekStart || !!onSeekDrag || !!onSeekEnd) && !!duration && duration > 0;
-
   return (
-    <canvas
-      ref={canvasRef}
-      role={isInteractive ? "slider" : "img"}
-      aria-label={isInteractive ? "Audio seek" : "Audio waveform"}
-      aria-valuemin={isInteractive ? 0 : undefined}
-      aria-valuemax={isInteractive ? Math.floor(duration) : undefined}
-      aria-valuenow={isInteractive ? Math.floor(currentTime ?? 0) : undefined}
-      aria-valuetext={
-        isInteractive ? `${formatTimeForScreen(currentTime ?? 0)} / ${formatTimeForScreen(duration)}` : undefined
-      }
-      tabIndex={isInteractive ? 0 : -1}
-      onMouseDown={isDragEnabled ? handleMouseDown : undefined}
-      onClick={handleClick}
-      onKeyDown={isInteractive ? handleKeyDown : undefined}
-      style={{ cursor: isInteractive ? (isDragEnabled ? "grab" : "pointer") : undefined, ...style }}
-      {...props}
-    />
+    <>
+      <canvas
+        ref={canvasRef}
+        role={isInteractive ? "slider" : "img"}
+        aria-label={isInteractive ? "Audio seek" : "Audio waveform"}
+        aria-valuemin={isInteractive ? 0 : undefined}
+        aria-valuemax={isInteractive ? Math.floor(duration) : undefined}
+        aria-valuenow={isInteractive ? Math.floor(currentTime ?? 0) : undefined}
+        aria-valuetext={
+          isInteractive ? `${formatTimeForScreen(currentTime ?? 0)} / ${formatTimeForScreen(duration)}` : undefined
+        }
+        tabIndex={isInteractive ? 0 : -1}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerCancel}
+        onPointerLeave={handlePointerLeave}
+        onClick={handleClick}
+        onKeyDown={isInteractive ? handleKeyDown : undefined}
+        style={{
+          cursor: pointerCursor ?? (isInteractive ? (isDragEnabled ? "grab" : "pointer") : undefined),
+          // Horizontal drags (and pinches when zoomable) belong to the waveform; vertical pans still scroll the page
+          touchAction: isPanZoomEnabled
+            ? "pan-y"
+            : isDragEnabled ||
+                isSelectionEnabled ||
+                isMarkerInteractive ||
+                isRegionInteractive ||
+                isRegionCreationEnabled
+              ? "pan-y pinch-zoom"
+              : undefined,
+          ...style,
+        }}
+        {...props}
+      />
+      {regions && onRegionsChange && duration && duration > 0 ? (
+        <WaveformRegionSliders
+          ref={regionSlidersRef}
+          regions={regions}
+          duration={duration}
+          overlap={regionOverlap}
+          onRegionsChange={onRegionsChange}
+          onFocusEdge={setFocusedRegionEdge}
+        />
+      ) : null}
+      {/* Tooltip is portaled so it isn't clipped by overflow on the canvas container */}
+      {hoverTooltip &&
+        renderHoverTooltip &&
+        createPortal(
+          <div
+            style={{
+              position: "fixed",
+              left: hoverTooltip.left,
+              top: hoverTooltip.top,
+              transform: "translate(-50%, -100%)",
+              pointerEvents: "none",
+              zIndex: 1000,
+            }}
+          >
+            {renderHoverTooltip(hoverTooltip.info)}
+          </div>,
+          document.body
+        )}
+    </>
   );
 });
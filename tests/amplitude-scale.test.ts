@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { createAmplitudeScale } from "../src/waveform/util-amplitude-scale";
+
+describe("createAmplitudeScale", () => {
+  it("normalizes against the loudest value per file by default", () => {
+    const toHeight = createAmplitudeScale({}, 0.5);
+
+    expect(toHeight(0.25)).toBe(0.5);
+    expect(toHeight(0.5)).toBe(1);
+  });
+
+  it("keeps full scale or a fixed reference comparable across files", () => {
+    expect(createAmplitudeScale({ normalize: "none" }, 0.5)(0.25)).toBe(0.25);
+    // Louder than the reference is clamped to the full height
+    expect(createAmplitudeScale({ normalize: 0.2 }, 0.5)(0.1)).toBe(0.5);
+    expect(createAmplitudeScale({ normalize: 0.2 }, 0.5)(0.4)).toBe(1);
+  });
+
+  it("maps amplitudes logarithmically between the dB floor and the reference", () => {
+    const toHeight = createAmplitudeScale({ normalize: "none", scale: "db", dbFloor: -40 }, 1);
+
+    expect(toHeight(1)).toBe(1);
+    // -20 dBFS sits halfway above a -40 dB floor
+    expect(toHeight(0.1)).toBeCloseTo(0.5);
+    expect(toHeight(0.001)).toBe(0);
+    expect(toHeight(0)).toBe(0);
+  });
+
+  it("draws nothing when the reference is silent", () => {
+    expect(createAmplitudeScale({}, 0)(0.5)).toBe(0);
+  });
+});
@@ -1,5 +1,25 @@
 import { afterEach, describe, expect, it, vi } from "vitest";
-import { decodeAudioBlob } from "../src/waveform/util-audio-decoder";
+import {
+  concatAudioBlobs,
+  cutAudioBlob,
+  decodeAudioBlob,
+  decodePeakPyramids,
+  getAudioData,
+  trimAudioBlob,
+} from "../src/waveform/util-audio-decoder";
+import { encodeWav } from "../src/waveform/util-wav-encoder";
+
+if (!Blob.prototype.arrayBuffer) {
+  // jsdom shim
+  Blob.prototype.arrayBuffer = function (this: Blob) {
+    return new Promise<ArrayBuffer>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as ArrayBuffer);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsArrayBuffer(this);
+    });
+  };
+}
 
 vi.mock("mpg123-decoder", () => {
   return {
@@ -8,6 +28,7 @@ vi.mock("mpg123-decoder", () => {
       decode() {
         return {
           channelData: [new Float32Array([0.1, -0.2, 0.3, -0.4])],
+          sampleRate: 4,
         };
       }
       free() {}
@@ -18,7 +39,35 @@ vi.mock("mpg123-decoder", () => {
 type OfflineAudioContextLike = new (
   ...args: unknown[]
 ) => {
-  decodeAudioData: (buffer: ArrayBuffer) => Promise<{ getChannelData: (index: number) => Float32Array }>;
+  decodeAudioData: (buffer: ArrayBuffer) => Promise<{
+    numberOfChannels: number;
+    sampleRate: number;
+    getChannelData: (index: number) => Float32Array;
+  }>;
+};
+
+// Mock native decoder returning the given channels at the given sample rate
+const mockNativeDecode = (channels: Float32Array[], sampleRate: number) => {
+  const OfflineAudioContextMock: OfflineAudioContextLike = class {
+    decodeAudioData() {
+      return Promise.resolve({
+        numberOfChannels: channels.length,
+        sampleRate,
+        getChannelData: (index: number) => channels[index],
+      });
+    }
+  };
+  global.OfflineAudioContext = OfflineAudioContextMock as typeof OfflineAudioContext;
+};
+
+// Read the 16-bit PCM samples (interleaved) back out of an encoded WAV blob
+const readWavSamples = async (blob: Blob) => {
+  const view = new DataView(await blob.arrayBuffer());
+  const samples: number[] = [];
+  for (let offset = 44; offset < view.byteLength; offset += 2) {
+    samples.push(Math.round((view.getInt16(offset, true) / 0x7fff) * 10) / 10);
+  }
+  return { channels: view.getUint16(22, true), sampleRate: view.getUint32(24, true), samples };
 };
 
 const originalOfflineAudioContext = global.OfflineAudioContext;
@@ -32,6 +81,8 @@ describe("decodeAudioBlob", () => {
     const OfflineAudioContextMock: OfflineAudioContextLike = class {
       decodeAudioData() {
         return Promise.resolve({
+          numberOfChannels: 1,
+          sampleRate: 44100,
           getChannelData: () => new Float32Array([0.1, -0.2]),
         });
       }
@@ -78,3 +129,105 @@ describe("decodeAudioBlob", () => {
     }
   });
 });
+
+describe("channel modes", () => {
+  const stereo = () => [new Float32Array([0.5, 0.5, 0.5, 0.5]), new Float32Array([0, 0, -1, -1])];
+  const blob = new Blob([new Uint8Array([1, 2, 3])], { type: "audio/wav" });
+
+  it("averages channels in mix mode", async () => {
+    // Out-of-phase second half cancels out when mixed
+    mockNativeDecode([new Float32Array([0.5, 0.5, 0.5, 0.5]), new Float32Array([0.5, 0.5, -0.5, -0.5])], 4);
+
+    expect(await decodeAudioBlob(blob, 2)).toEqual([1, 1]);
+    expect(await decodeAudioBlob(blob, 2, { channels: "mix" })).toEqual([1, 0]);
+  });
+
+  it("decodes one pyramid per channel in split mode", async () => {
+    mockNativeDecode(stereo(), 4);
+    const fractions: number[] = [];
+
+    const lanes = await decodePeakPyramids(blob, {
+      channels: "split",
+      onProgress: (fraction, partial) => {
+        fractions.push(fraction);
+        expect(partial).toHaveLength(2);
+      },
+    });
+
+    expect(lanes).toHaveLength(2);
+    expect(lanes[0].maxAmplitude).toBe(0.5);
+    expect(lanes[1].maxAmplitude).toBe(1);
+    // On the main thread progress only advances between lanes (no preview pyramids are built)
+    expect(fractions).toEqual([0, 0.5, 1]);
+  });
+
+  it("caches decodes per decoder and channel mode and reports progress to every waiting caller", async () => {
+    mockNativeDecode(stereo(), 4);
+    const source = new Blob([new Uint8Array([1, 2, 3, 4])]);
+    const first = vi.fn();
+    const second = vi.fn();
+
+    const promise = getAudioData(source, { channels: "split", onProgress: first });
+    expect(getAudioData(source, { channels: "split", onProgress: second })).toBe(promise);
+    const workerPromise = getAudioData(source, { decoder: "worker", channels: "split" });
+    expect(workerPromise).not.toBe(promise);
+
+    const lanes = await promise;
+    expect(first).toHaveBeenLastCalledWith(1, lanes);
+    expect(second).toHaveBeenLastCalledWith(1, lanes);
+    await workerPromise;
+  });
+
+  it("decodes a single mixed lane in mix mode", async () => {
+    mockNativeDecode(stereo(), 4);
+
+    const lanes = await decodePeakPyramids(blob, { channels: "mix" });
+
+    expect(lanes).toHaveLength(1);
+    expect(lanes[0].levels[0].min[0]).toBe(-0.25);
+  });
+});
+
+describe("encodeWav", () => {
+  it("writes a 16-bit PCM header and interleaves channels", async () => {
+    const blob = encodeWav([new Float32Array([0.5, 1]), new Float32Array([-0.5, -1])], 8000);
+
+    expect(blob.type).toBe("audio/wav");
+    expect(blob.size).toBe(44 + 4 * 2);
+
+    const { channels, sampleRate, samples } = await readWavSamples(blob);
+    expect(channels).toBe(2);
+    expect(sampleRate).toBe(8000);
+    expect(samples).toEqual([0.5, -0.5, 1, -1]);
+  });
+});
+
+describe("audio editing utilities", () => {
+  const source = () => new Blob([new Uint8Array([1, 2, 3])], { type: "audio/wav" });
+
+  it("trims to the given range", async () => {
+    mockNativeDecode([new Float32Array([0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 1])], 10);
+
+    const { samples } = await readWavSamples(await trimAudioBlob(source(), { start: 0.2, end: 0.5 }));
+
+    expect(samples).toEqual([0.3, 0.4, 0.5]);
+  });
+
+  it("cuts a range out and joins the rest", async () => {
+    mockNativeDecode([new Float32Array([0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 1])], 10);
+
+    const { samples } = await readWavSamples(await cutAudioBlob(source(), { start: 0.2, end: 0.8 }));
+
+    expect(samples).toEqual([0.1, 0.2, 0.9, 1]);
+  });
+
+  it("concatenates segments in order", async () => {
+    mockNativeDecode([new Float32Array([0.1, 0.2, 0.3, 0.4])], 4);
+
+    const { samples } = await readWavSamples(
+      await concatAudioBlobs([source(), { blob: source(), range: { start: 0.5, end: 1 } }])
+    );
+
+    expect(samples).toEqual([0.1, 0.2, 0.3, 0.4, 0.3, 0.4]);
+  });
+});
@@ -0,0 +1,213 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  acquireFetchedAudio,
+  acquireFetchedAudioForRender,
+  fetchAudioBlob,
+  getAudioFetchKey,
+} from "../src/waveform/util-audio-fetch";
+
+const FILE = new Uint8Array([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+
+function createResponse(status: number, body: Uint8Array, headers: Record<string, string> = {}) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: status === 404 ? "Not Found" : "OK",
+    headers: new Headers(headers),
+    arrayBuffer: async () => body.slice().buffer,
+    blob: async () => new Blob([body.slice()], { type: headers["Content-Type"] }),
+  } as unknown as Response;
+}
+
+// Server honouring Range requests over FILE
+function rangeServer(_src: string, init?: RequestInit) {
+  const range = new Headers(init?.headers).get("Range");
+  const match = range?.match(/bytes=(\d+)-(\d+)/);
+  if (!match) return Promise.resolve(createResponse(200, FILE, { "Content-Type": "audio/mpeg" }));
+
+  const start = Number(match[1]);
+  const end = Math.min(Number(match[2]), FILE.length - 1);
+  return Promise.resolve(
+    createResponse(206, FILE.slice(start, end + 1), {
+      "Content-Type": "audio/mpeg",
+      "Content-Range": `bytes ${start}-${end}/${FILE.length}`,
+    })
+  );
+}
+
+function readBytes(blob: Blob) {
+  return new Promise<Uint8Array>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+describe("fetchAudioBlob", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("passes request options through to fetch", async () => {
+    const fetchMock = vi.fn(rangeServer);
+    vi.stubGlobal("fetch", fetchMock);
+    const controller = new AbortController();
+
+    const blob = await fetchAudioBlob("/a.mp3", { credentials: "include" }, controller.signal);
+
+    expect(blob.size).toBe(FILE.length);
+    expect(fetchMock).toHaveBeenCalledWith("/a.mp3", { credentials: "include", signal: controller.signal });
+  });
+
+  it("stitches Range chunks into one blob", async () => {
+    const fetchMock = vi.fn(rangeServer);
+    vi.stubGlobal("fetch", fetchMock);
+
+    const blob = await fetchAudioBlob("/a.mp3", { rangeChunkSize: 4, headers: { Authorization: "token" } });
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    const lastHeaders = new Headers(fetchMock.mock.calls[2][1]?.headers);
+    expect(lastHeaders.get("Range")).toBe("bytes=8-11");
+    expect(lastHeaders.get("Authorization")).toBe("token");
+    expect(blob.type).toBe("audio/mpeg");
+    expect(Array.from(await readBytes(blob))).toEqual(Array.from(FILE));
+  });
+
+  it("falls back to the full response when the server ignores Range", async () => {
+    const fetchMock = vi.fn(() => Promise.resolve(createResponse(200, FILE)));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const blob = await fetchAudioBlob("/a.mp3", { rangeChunkSize: 4 });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(blob.size).toBe(FILE.length);
+  });
+
+  it("rejects on HTTP errors", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(() => Promise.resolve(createResponse(404, new Uint8Array())))
+    );
+
+    await expect(fetchAudioBlob("/missing.mp3")).rejects.toThrow("status: 404");
+  });
+});
+
+describe("acquireFetchedAudio", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("shares a request per URL and options", async () => {
+    const fetchMock = vi.fn(rangeServer);
+    vi.stubGlobal("fetch", fetchMock);
+
+    const first = acquireFetchedAudio("/shared.mp3", { headers: { Authorization: "a" } });
+    const same = acquireFetchedAudio("/shared.mp3", { headers: { authorization: "a" } });
+    const other = acquireFetchedAudio("/shared.mp3", { headers: { Authorization: "b" } });
+
+    expect(same.promise).toBe(first.promise);
+    expect(other.promise).not.toBe(first.promise);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(getAudioFetchKey("/x", { credentials: "include", mode: undefined })).toBe(
+      getAudioFetchKey("/x", { credentials: "include" })
+    );
+
+    await first.promise;
+    for (const handle of [first, same, other]) handle.release();
+  });
+
+  it("aborts a pending request when its last consumer releases it", () => {
+    const fetchMock = vi.fn((_src: string, _init?: RequestInit) => new Promise<Response>(() => {}));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const a = acquireFetchedAudio("/pending.mp3");
+    const b = acquireFetchedAudio("/pending.mp3");
+    const signal = fetchMock.mock.calls[0][1]?.signal as AbortSignal;
+
+    a.release();
+    expect(signal.aborted).toBe(false);
+    b.release();
+    expect(signal.aborted).toBe(true);
+
+    // A new consumer starts a fresh request
+    acquireFetchedAudio("/pending.mp3").release();
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("drops failed requests so they can be retried", async () => {
+    const fetchMock = vi.fn(async () => createResponse(404, new Uint8Array()));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const failed = acquireFetchedAudio("/flaky.mp3");
+    await expect(failed.promise).rejects.toThrow("status: 404");
+
+    fetchMock.mockImplementation(async () => createResponse(200, FILE));
+    const retried = acquireFetchedAudio("/flaky.mp3");
+    expect((await retried.promise).size).toBe(FILE.length);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    failed.release();
+    retried.release();
+  });
+
+  it("keeps only a few finished downloads without consumers", async () => {
+    const fetchMock = vi.fn(rangeServer);
+    vi.stubGlobal("fetch", fetchMock);
+
+    for (let i = 0; i < 6; i++) {
+      const handle = acquireFetchedAudio(`/evict-${i}.mp3`);
+      await handle.promise;
+      handle.release();
+    }
+    fetchMock.mockClear();
+
+    // The most recent downloads are reused, the oldest ones were evicted
+    acquireFetchedAudio("/evict-5.mp3").release();
+    expect(fetchMock).not.toHaveBeenCalled();
+    acquireFetchedAudio("/evict-0.mp3").release();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("acquireFetchedAudioForRender", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("holds a pending request for the suspended render and releases through claim", () => {
+    const fetchMock = vi.fn((_src: string, _init?: RequestInit) => new Promise<Response>(() => {}));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const lease = acquireFetchedAudioForRender("/render.mp3");
+    const signal = fetchMock.mock.calls[0][1]?.signal as AbortSignal;
+
+    // Another consumer leaving doesn't abort the download the render is waiting for
+    acquireFetchedAudio("/render.mp3").release();
+    expect(signal.aborted).toBe(false);
+
+    const release = lease.claim();
+    release();
+    expect(signal.aborted).toBe(true);
+  });
+
+  it("releases leases of discarded renders once the download settles", async () => {
+    vi.useFakeTimers({ toFake: ["setTimeout"] });
+    const fetchMock = vi.fn(rangeServer);
+    vi.stubGlobal("fetch", fetchMock);
+
+    await acquireFetchedAudioForRender("/discarded.mp3").promise;
+    await vi.advanceTimersByTimeAsync(1000);
+
+    // Released like any unused download: evicted once enough newer ones finish
+    for (let i = 0; i < 4; i++) {
+      const handle = acquireFetchedAudio(`/newer-${i}.mp3`);
+      await handle.promise;
+      handle.release();
+    }
+    fetchMock.mockClear();
+    acquireFetchedAudio("/discarded.mp3").release();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,171 @@
+import { act, cleanup, fireEvent, render, screen } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AudioPlayer } from "../src/player/player-compound";
+import type { UseAudioPlayerReturn } from "../src/player/use-audio-player";
+import { formatTime } from "../src/waveform/util-format-time";
+
+if (!global.ResizeObserver) {
+  // @ts-expect-error - jsdom shim
+  global.ResizeObserver = class {
+    observe() {}
+    disconnect() {}
+  };
+}
+
+const mouse = { pointerId: 1, pointerType: "mouse", isPrimary: true };
+
+// The player downloads `src` once and plays it from a blob URL
+beforeEach(() => {
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async () => ({ ok: true, status: 200, blob: async () => new Blob(["audio"]) }) as unknown as Response)
+  );
+  URL.createObjectURL = vi.fn(() => "blob:audio");
+  URL.revokeObjectURL = vi.fn();
+});
+
+// jsdom doesn't implement media playback: fake play/pause events, duration and seeking
+beforeEach(() => {
+  const state = new WeakMap<HTMLMediaElement, { paused: boolean; currentTime: number }>();
+  const get = (el: HTMLMediaElement) => {
+    if (!state.has(el)) state.set(el, { paused: true, currentTime: 0 });
+    return state.get(el) as { paused: boolean; currentTime: number };
+  };
+
+  vi.spyOn(HTMLMediaElement.prototype, "play").mockImplementation(function (this: HTMLMediaElement) {
+    get(this).paused = false;
+    this.dispatchEvent(new Event("play"));
+    return Promise.resolve();
+  });
+  vi.spyOn(HTMLMediaElement.prototype, "pause").mockImplementation(function (this: HTMLMediaElement) {
+    if (get(this).paused) return;
+    get(this).paused = true;
+    this.dispatchEvent(new Event("pause"));
+  });
+  vi.spyOn(HTMLMediaElement.prototype, "load").mockImplementation(() => {});
+  vi.spyOn(HTMLMediaElement.prototype, "paused", "get").mockImplementation(function (this: HTMLMediaElement) {
+    return get(this).paused;
+  });
+  vi.spyOn(HTMLMediaElement.prototype, "duration", "get").mockReturnValue(90);
+  vi.spyOn(HTMLMediaElement.prototype, "currentTime", "get").mockImplementation(function (this: HTMLMediaElement) {
+    return get(this).currentTime;
+  });
+  vi.spyOn(HTMLMediaElement.prototype, "currentTime", "set").mockImplementation(function (
+    this: HTMLMediaElement,
+    time: number
+  ) {
+    get(this).currentTime = time;
+  });
+});
+
+afterEach(() => {
+  cleanup();
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+async function renderPlayer(children: React.ReactNode, src = "/audio.mp3") {
+  let player: UseAudioPlayerReturn | null = null;
+  await act(async () => {
+    render(
+      <AudioPlayer.Root src={src}>
+        {(value) => {
+          player = value;
+          return children;
+        }}
+      </AudioPlayer.Root>
+    );
+  });
+
+  const audio = (player as UseAudioPlayerReturn | null)?.audioElement as HTMLAudioElement;
+  act(() => {
+    audio.dispatchEvent(new Event("loadedmetadata"));
+  });
+  return audio;
+}
+
+describe("formatTime", () => {
+  it("formats minutes and hours", () => {
+    expect(formatTime(0)).toBe("0:00");
+    expect(formatTime(75.9)).toBe("1:15");
+    expect(formatTime(3725)).toBe("1:02:05");
+    expect(formatTime(Number.NaN)).toBe("0:00");
+  });
+});
+
+describe("AudioPlayer", () => {
+  it("toggles playback and shows the loaded duration", async () => {
+    const audio = await renderPlayer(
+      <>
+        <AudioPlayer.PlayButton />
+        <AudioPlayer.Time data-testid="time" />
+      </>
+    );
+
+    expect(screen.getByTestId("time").textContent).toBe("0:00 / 1:30");
+
+    await act(async () => {
+      fireEvent.click(screen.getByRole("button", { name: "Play" }));
+    });
+    expect(audio.play).toHaveBeenCalledTimes(1);
+    expect(screen.getByRole("button", { name: "Pause" })).toBeTruthy();
+
+    act(() => {
+      fireEvent.click(screen.getByRole("button", { name: "Pause" }));
+    });
+    expect(screen.getByRole("button", { name: "Play" })).toBeTruthy();
+  });
+
+  it("downloads src once and plays it from a blob URL", async () => {
+    const audio = await renderPlayer(<AudioPlayer.PlayButton />, "/single.mp3");
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(fetch).mock.calls[0][0]).toBe("/single.mp3");
+    expect(audio.getAttribute("src")).toBe("blob:audio");
+    expect(screen.getByRole("button", { name: "Play" }).hasAttribute("disabled")).toBe(false);
+  });
+
+  it("controls volume and playback rate", async () => {
+    const audio = await renderPlayer(
+      <>
+        <AudioPlayer.VolumeSlider />
+        <AudioPlayer.PlaybackRate />
+      </>
+    );
+
+    fireEvent.change(screen.getByLabelText("Volume"), { target: { value: "0.25" } });
+    fireEvent.change(screen.getByLabelText("Playback rate"), { target: { value: "1.5" } });
+
+    expect(audio.volume).toBe(0.25);
+    expect(audio.playbackRate).toBe(1.5);
+  });
+
+  it("seeks from the waveform and resumes playback after dragging", async () => {
+    const audio = await renderPlayer(
+      <>
+        <AudioPlayer.PlayButton />
+        <AudioPlayer.Waveform peaks={[0.1, 0.2, 0.3]} />
+      </>
+    );
+
+    await act(async () => {
+      fireEvent.click(screen.getByRole("button", { name: "Play" }));
+    });
+
+    const canvas = document.querySelector("canvas") as HTMLCanvasElement;
+    Object.defineProperty(canvas, "getBoundingClientRect", {
+      value: () => ({ left: 0, top: 0, right: 100, bottom: 10, width: 100, height: 10, x: 0, y: 0 }),
+    });
+
+    fireEvent.pointerDown(canvas, { ...mouse, clientX: 10 });
+    expect(audio.pause).toHaveBeenCalled();
+
+    await act(async () => {
+      fireEvent.pointerUp(canvas, { ...mouse, clientX: 50 });
+    });
+
+    expect(audio.currentTime).toBe(45);
+    expect(audio.play).toHaveBeenCalledTimes(2);
+    expect(canvas.getAttribute("aria-valuenow")).toBe("45");
+  });
+});
@@ -0,0 +1,362 @@
+import { act, cleanup, renderHook, waitFor } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { useAudioInputDevices } from "../src/recorder/use-audio-input-devices";
+import { useAudioRecorder } from "../src/recorder/use-audio-recorder";
+import { type RecorderError, toRecorderError } from "../src/recorder/util-recorder-error";
+import { startSwitchableInput } from "../src/recorder/util-switchable-input";
+
+// AudioWorklet capture is faked: WAV tests only check how the hook drives it
+const pcmCapture = {
+  pause: vi.fn(),
+  resume: vi.fn(),
+  stop: vi.fn(async () => ({ channelData: [new Float32Array(4)], sampleRate: 8000 })),
+};
+vi.mock("../src/recorder/util-pcm-capture", () => ({
+  startPcmCapture: vi.fn(async () => pcmCapture),
+}));
+
+// jsdom has no media devices or Web Audio: fake just enough of both
+class FakeTrack {
+  stop = vi.fn();
+}
+
+class FakeStream {
+  tracks = [new FakeTrack()];
+  constructor(readonly deviceId?: string) {}
+  getTracks() {
+    return this.tracks;
+  }
+  getAudioTracks() {
+    return this.tracks.map((track) =>
+      Object.assign(track, { getSettings: () => ({ sampleRate: 48000, channelCount: 1 }) })
+    );
+  }
+}
+
+class FakeNode {
+  connect = vi.fn();
+  disconnect = vi.fn();
+  constructor(readonly stream?: FakeStream) {}
+}
+
+const destinationStream = new FakeStream("destination");
+
+class FakeAudioContext {
+  static instances: FakeAudioContext[] = [];
+  static initialState = "running";
+  state = FakeAudioContext.initialState;
+  destination = { stream: destinationStream, channelCount: 2 };
+  resume = vi.fn(() => new Promise<void>(() => {}));
+  constructor(readonly options?: AudioContextOptions) {
+    FakeAudioContext.instances.push(this);
+  }
+  createMediaStreamDestination() {
+    return this.destination;
+  }
+  createMediaStreamSource(stream: FakeStream) {
+    return new FakeNode(stream);
+  }
+  close() {
+    this.state = "closed";
+    return Promise.resolve();
+  }
+}
+
+class FakeMediaRecorder extends EventTarget {
+  static instances: FakeMediaRecorder[] = [];
+  static isTypeSupported() {
+    return true;
+  }
+  state = "inactive";
+  mimeType = "audio/webm";
+  ondataavailable: ((event: { data: Blob }) => void) | null = null;
+  onstop: (() => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  constructor(readonly stream: FakeStream) {
+    super();
+    FakeMediaRecorder.instances.push(this);
+  }
+  start() {
+    this.state = "recording";
+  }
+  pause() {
+    this.state = "paused";
+  }
+  resume() {
+    this.state = "recording";
+  }
+  stop() {
+    this.state = "inactive";
+    this.onstop?.();
+  }
+}
+
+let devices: Partial<MediaDeviceInfo>[] = [];
+const mediaDevices = Object.assign(new EventTarget(), {
+  getUserMedia: vi.fn(async ({ audio }: MediaStreamConstraints) => {
+    const deviceId = typeof audio === "object" ? (audio.deviceId as ConstrainDOMStringParameters)?.exact : undefined;
+    return new FakeStream(deviceId as string | undefined);
+  }),
+  enumerateDevices: vi.fn(async () => devices),
+});
+
+beforeEach(() => {
+  FakeMediaRecorder.instances = [];
+  FakeAudioContext.instances = [];
+  FakeAudioContext.initialState = "running";
+  devices = [];
+  vi.stubGlobal("AudioContext", FakeAudioContext);
+  vi.stubGlobal("MediaRecorder", FakeMediaRecorder);
+  Object.defineProperty(navigator, "mediaDevices", { value: mediaDevices, configurable: true });
+});
+
+afterEach(() => {
+  cleanup();
+  vi.unstubAllGlobals();
+  mediaDevices.getUserMedia.mockClear();
+});
+
+describe("useAudioInputDevices", () => {
+  it("lists microphones with fallback labels and follows devicechange", async () => {
+    devices = [
+      { kind: "audioinput", deviceId: "a", groupId: "g1", label: "" },
+      { kind: "audiooutput", deviceId: "b", groupId: "g1", label: "" },
+    ];
+    const { result } = renderHook(() => useAudioInputDevices());
+
+    await waitFor(() => expect(result.current.devices).toHaveLength(1));
+    expect(result.current.devices[0]).toEqual({ deviceId: "a", groupId: "g1", label: "Microphone 1" });
+    expect(result.current.hasLabels).toBe(false);
+
+    devices = [
+      { kind: "audioinput", deviceId: "a", groupId: "g1", label: "Built-in" },
+      { kind: "audioinput", deviceId: "c", groupId: "g2", label: "USB Mic" },
+    ];
+    await act(async () => {
+      mediaDevices.dispatchEvent(new Event("devicechange"));
+    });
+
+    expect(result.current.devices.map((device) => device.label)).toEqual(["Built-in", "USB Mic"]);
+    expect(result.current.hasLabels).toBe(true);
+  });
+});
+
+describe("startSwitchableInput", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("runs the graph at the microphone's sample rate and channel count", async () => {
+    const mic = new FakeStream("a");
+    const input = await startSwitchableInput(mic as unknown as MediaStream);
+
+    const [context] = FakeAudioContext.instances;
+    expect(context.options).toEqual({ sampleRate: 48000 });
+    expect(context.destination.channelCount).toBe(1);
+    expect(input.stream).toBe(destinationStream);
+  });
+
+  it("records the microphone directly when the context never resumes", async () => {
+    vi.useFakeTimers();
+    FakeAudioContext.initialState = "suspended";
+    const mic = new FakeStream("a");
+
+    const pending = startSwitchableInput(mic as unknown as MediaStream);
+    await vi.advanceTimersByTimeAsync(1000);
+    const input = await pending;
+
+    expect(input.stream).toBe(mic);
+    expect(FakeAudioContext.instances[0].state).toBe("closed");
+    const next = new FakeStream("b");
+    expect(() => input.replaceInput(next as unknown as MediaStream)).toThrow(/AudioContext/);
+    expect(next.tracks[0].stop).toHaveBeenCalled();
+  });
+});
+
+describe("useAudioRecorder deviceId", () => {
+  it("switches microphones mid-recording without replacing the MediaRecorder", async () => {
+    const { result, rerender } = renderHook(({ deviceId }) => useAudioRecorder({ deviceId }), {
+      initialProps: { deviceId: "a" },
+    });
+
+    await act(async () => {
+      await result.current.startRecording();
+    });
+
+    const recorder = result.current.mediaRecorder as unknown as FakeMediaRecorder;
+    expect(recorder.stream).toBe(destinationStream);
+    const firstMic = await mediaDevices.getUserMedia.mock.results[0].value;
+    expect(firstMic.deviceId).toBe("a");
+
+    recorder.ondataavailable?.({ data: new Blob(["first"]) });
+
+    await act(async () => {
+      rerender({ deviceId: "b" });
+    });
+
+    const secondMic = await mediaDevices.getUserMedia.mock.results[1].value;
+    expect(secondMic.deviceId).toBe("b");
+    expect(firstMic.tracks[0].stop).toHaveBeenCalled();
+    expect(result.current.mediaRecorder).toBe(recorder);
+    expect(FakeMediaRecorder.instances).toHaveLength(1);
+
+    recorder.ondataavailable?.({ data: new Blob(["second"]) });
+    act(() => {
+      result.current.stopRecording();
+    });
+
+    expect(result.current.recordingBlob?.size).toBe("firstsecond".length);
+    expect(secondMic.tracks[0].stop).toHaveBeenCalled();
+  });
+});
+
+describe("useAudioRecorder WAV output", () => {
+  it("records without a MediaRecorder encoder and drives the stand-in's state and events", async () => {
+    const onRecordingComplete = vi.fn();
+    const { result } = renderHook(() => useAudioRecorder({ outputFormat: "wav", onRecordingComplete }));
+
+    await act(async () => {
+      await result.current.startRecording();
+    });
+
+    expect(FakeMediaRecorder.instances).toHaveLength(0);
+    const recorder = result.current.mediaRecorder;
+    expect(recorder?.stream).toBe(destinationStream);
+    expect(recorder?.state).toBe("recording");
+
+    const onPause = vi.fn();
+    recorder?.addEventListener("pause", onPause);
+    act(() => {
+      result.current.pauseRecording();
+    });
+    expect(onPause).toHaveBeenCalledTimes(1);
+    expect(recorder?.state).toBe("paused");
+    expect(pcmCapture.pause).toHaveBeenCalled();
+
+    await act(async () => {
+      result.current.stopRecording();
+    });
+
+    await waitFor(() => expect(onRecordingComplete).toHaveBeenCalledTimes(1));
+    expect(result.current.recordingBlob?.type).toBe("audio/wav");
+    expect(result.current.recordingBlob?.size).toBe(44 + 4 * 2);
+  });
+});
+
+describe("RecorderError", () => {
+  it("classifies getUserMedia failures by DOMException name", () => {
+    const denied = toRecorderError(new DOMException("Permission denied", "NotAllowedError"));
+    expect(denied.code).toBe("permission-denied");
+    expect(denied.cause).toBeInstanceOf(DOMException);
+
+    const missing = toRecorderError(new DOMException("", "OverconstrainedError"), "usb");
+    expect(missing).toMatchObject({ code: "device-not-found", deviceId: "usb" });
+    expect(toRecorderError(new DOMException("", "NotReadableError")).code).toBe("device-in-use");
+    expect(toRecorderError(new Error("boom"))).toMatchObject({ code: "unknown", message: "boom" });
+    // Already classified errors pass through
+    expect(toRecorderError(denied)).toBe(denied);
+  });
+
+  it("reports denied permission through error, onError and permissionState", async () => {
+    mediaDevices.getUserMedia.mockRejectedValueOnce(new DOMException("Permission denied", "NotAllowedError"));
+    const onError = vi.fn<(error: RecorderError) => void>();
+    const { result } = renderHook(() => useAudioRecorder({ onError }));
+
+    await act(async () => {
+      await result.current.startRecording();
+    });
+
+    expect(result.current.error?.code).toBe("permission-denied");
+    expect(onError).toHaveBeenCalledWith(result.current.error);
+    expect(result.current.permissionState).toBe("denied");
+    expect(result.current.isRecording).toBe(false);
+  });
+
+  it("describes MediaRecorder errors from the event's DOMException", async () => {
+    const onError = vi.fn<(error: RecorderError) => void>();
+    const { result } = renderHook(() => useAudioRecorder({ onError }));
+
+    await act(async () => {
+      await result.current.startRecording();
+    });
+
+    const cause = new DOMException("Encoder crashed", "UnknownError");
+    act(() => {
+      FakeMediaRecorder.instances[0].onerror?.(Object.assign(new Event("error"), { error: cause }));
+    });
+
+    expect(result.current.error).toMatchObject({
+      code: "recording-failed",
+      message: "Recording failed: Encoder crashed",
+    });
+    expect(result.current.error?.cause).toBe(cause);
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(result.current.isRecording).toBe(false);
+  });
+
+  it("follows the Permissions API microphone state", async () => {
+    const status = Object.assign(new EventTarget(), { state: "prompt" as PermissionState });
+    Object.defineProperty(navigator, "permissions", {
+      value: { query: vi.fn(async () => status) },
+      configurable: true,
+    });
+    const { result } = renderHook(() => useAudioRecorder());
+
+    await waitFor(() => expect(result.current.permissionState).toBe("prompt"));
+
+    status.state = "granted";
+    act(() => {
+      status.dispatchEvent(new Event("change"));
+    });
+    expect(result.current.permissionState).toBe("granted");
+
+    Reflect.deleteProperty(navigator, "permissions");
+  });
+});
+
+describe("useAudioRecorder timer", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("keeps sub-second time across pause/resume and auto-stops at maxDuration", async () => {
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout", "setInterval", "clearInterval", "performance"] });
+    const onMaxDurationReached = vi.fn();
+    const onRecordingComplete = vi.fn();
+    const { result } = renderHook(() =>
+      useAudioRecorder({ maxDuration: 3, onMaxDurationReached, onRecordingComplete })
+    );
+
+    await act(async () => {
+      await result.current.startRecording();
+    });
+
+    act(() => {
+      vi.advanceTimersByTime(1450);
+      result.current.pauseRecording();
+    });
+    expect(result.current.recordingTimeMs).toBe(1450);
+    expect(result.current.recordingTime).toBe(1);
+
+    // Paused time doesn't count
+    act(() => {
+      vi.advanceTimersByTime(5000);
+      result.current.resumeRecording();
+    });
+    expect(result.current.recordingTimeMs).toBe(1450);
+
+    act(() => {
+      vi.advanceTimersByTime(1000);
+    });
+    expect(result.current.recordingTimeMs).toBe(2450);
+    expect(onMaxDurationReached).not.toHaveBeenCalled();
+
+    act(() => {
+      vi.advanceTimersByTime(550);
+    });
+    expect(onMaxDurationReached).toHaveBeenCalledTimes(1);
+    expect(onRecordingComplete).toHaveBeenCalledTimes(1);
+    expect(result.current.isRecording).toBe(false);
+    expect(result.current.recordingTimeMs).toBe(3000);
+  });
+});
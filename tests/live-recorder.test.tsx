@@ -0,0 +1,39 @@
+import { cleanup, render, screen } from "@testing-library/react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { LiveRecorder, useLiveRecorderContext } from "../src/recorder/live-recorder";
+
+afterEach(() => {
+  cleanup();
+  vi.restoreAllMocks();
+});
+
+describe("LiveRecorder compound", () => {
+  it("provides idle recorder state to render-prop children and parts", () => {
+    render(
+      <LiveRecorder.Root mediaRecorder={null} data-testid="root">
+        {({ isRecording, frequencies, mediaRecorder }) => (
+          <>
+            <span data-testid="state">{`${isRecording}:${frequencies.length}:${mediaRecorder}`}</span>
+            <LiveRecorder.Canvas mode="spectrum" data-testid="canvas" />
+            <LiveRecorder.Bars data-testid="bars" />
+          </>
+        )}
+      </LiveRecorder.Root>
+    );
+
+    expect(screen.getByTestId("state").textContent).toBe("false:0:null");
+    expect(screen.getByTestId("canvas").tagName).toBe("CANVAS");
+    expect(screen.getByTestId("bars").children).toHaveLength(0);
+  });
+
+  it("throws when parts are used outside LiveRecorder.Root", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const Probe = () => {
+      useLiveRecorderContext();
+      return null;
+    };
+
+    expect(() => render(<Probe />)).toThrow("useLiveRecorderContext must be used within LiveRecorder.Root");
+    expect(() => render(<LiveRecorder.Bars />)).toThrow(/LiveRecorder.Root/);
+  });
+});
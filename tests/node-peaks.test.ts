@@ -0,0 +1,113 @@
+/**
+ * @vitest-environment node
+ */
+import { describe, expect, it, vi } from "vitest";
+import { decodeAudioBuffer, generatePeaks, generatePeaksData, parsePeaksData, serializePeaksData } from "../src/node";
+import { decodeWav } from "../src/waveform/util-wav-decoder";
+
+vi.mock("mpg123-decoder", () => {
+  return {
+    MPEGDecoder: class {
+      ready = Promise.resolve();
+      decode() {
+        return {
+          channelData: [new Float32Array([0.1, -0.2, 0.3, -0.4])],
+          sampleRate: 4,
+        };
+      }
+      free() {}
+    },
+  };
+});
+
+function createWav(samples: number[], { bitsPerSample = 16, numChannels = 1, sampleRate = 8 } = {}) {
+  const bytesPerSample = bitsPerSample / 8;
+  const dataSize = samples.length * bytesPerSample;
+  const buffer = Buffer.alloc(44 + dataSize);
+  buffer.write("RIFF", 0);
+  buffer.writeUInt32LE(36 + dataSize, 4);
+  buffer.write("WAVE", 8);
+  buffer.write("fmt ", 12);
+  buffer.writeUInt32LE(16, 16);
+  buffer.writeUInt16LE(1, 20);
+  buffer.writeUInt16LE(numChannels, 22);
+  buffer.writeUInt32LE(sampleRate, 24);
+  buffer.writeUInt32LE(sampleRate * numChannels * bytesPerSample, 28);
+  buffer.writeUInt16LE(numChannels * bytesPerSample, 32);
+  buffer.writeUInt16LE(bitsPerSample, 34);
+  buffer.write("data", 36);
+  buffer.writeUInt32LE(dataSize, 40);
+  samples.forEach((sample, i) => {
+    buffer.writeIntLE(Math.round(sample * 2 ** (bitsPerSample - 1)), 44 + i * bytesPerSample, bytesPerSample);
+  });
+  return buffer;
+}
+
+describe("decodeWav", () => {
+  it("decodes interleaved 16-bit PCM into channels", () => {
+    const { channelData, sampleRate } = decodeWav(createWav([0.5, -0.5, 0.25, -0.25], { numChannels: 2 }));
+
+    expect(sampleRate).toBe(8);
+    expect(Array.from(channelData[0])).toEqual([0.5, 0.25]);
+    expect(Array.from(channelData[1])).toEqual([-0.5, -0.25]);
+  });
+
+  it("decodes 24-bit PCM", () => {
+    const { channelData } = decodeWav(createWav([0.5, -0.5], { bitsPerSample: 24 }));
+
+    expect(Array.from(channelData[0])).toEqual([0.5, -0.5]);
+  });
+});
+
+describe("Node peak generation", () => {
+  it("generates normalized peaks from a WAV Buffer", async () => {
+    const peaks = await generatePeaks(createWav([0.1, -0.1, 0.5, -0.5]), { sampleCount: 2 });
+
+    expect(peaks[0]).toBeCloseTo(0.2, 3);
+    expect(peaks[1]).toBe(1);
+  });
+
+  it("uses the largest absolute sample in peak mode", async () => {
+    const wav = createWav([0.1, -0.5, 0.25, 0.25]);
+
+    expect(await generatePeaks(wav, { sampleCount: 2, peakMode: "peak" })).toEqual([1, 0.5]);
+  });
+
+  it("keeps absolute levels when normalization is disabled", async () => {
+    const wav = createWav([0.25, 0.25, 0.5, 0.5]);
+
+    expect(await generatePeaks(wav, { sampleCount: 2, normalize: "none" })).toEqual([0.25, 0.5]);
+  });
+
+  it("generates peaks data with sample rate and duration", async () => {
+    const data = await generatePeaksData(createWav(new Array(16).fill(0.5)), { sampleCount: 4 });
+
+    expect(data).toEqual({ version: 1, sampleRate: 8, duration: 2, peaks: [1, 1, 1, 1] });
+  });
+
+  it("decodes MP3 through the WASM decoder", async () => {
+    const mp3 = Buffer.from([0x49, 0x44, 0x33, 0x04, 0x00]);
+    const { sampleRate } = await decodeAudioBuffer(mp3);
+    const peaks = await generatePeaks(mp3, { sampleCount: 4 });
+
+    expect(sampleRate).toBe(4);
+    expect(peaks.map((peak) => Number(peak.toFixed(4)))).toEqual([0.25, 0.5, 0.75, 1]);
+  });
+
+  it("rejects unsupported formats", async () => {
+    await expect(decodeAudioBuffer(Buffer.from("OggS0000"))).rejects.toThrow("Unsupported audio format");
+  });
+});
+
+describe("peaks data serialization", () => {
+  it("round-trips through JSON with rounded peaks", () => {
+    const json = serializePeaksData({ version: 1, sampleRate: 44100, duration: 1.5, peaks: [0.123456, 1] });
+
+    expect(parsePeaksData(json)).toEqual({ version: 1, sampleRate: 44100, duration: 1.5, peaks: [0.1235, 1] });
+  });
+
+  it("rejects values outside the schema", () => {
+    expect(() => parsePeaksData({ version: 2 })).toThrow("Unsupported peaks data version");
+    expect(() => parsePeaksData({ version: 1, sampleRate: 8000, duration: 1, peaks: [2] })).toThrow("0-1 range");
+  });
+});
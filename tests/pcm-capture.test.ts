@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { PROCESSOR_SOURCE } from "../src/recorder/util-pcm-capture";
+
+type PcmBatchMessage = { channels: Float32Array[]; final: boolean };
+
+interface FakeProcessor {
+  port: { postMessage: (message: PcmBatchMessage) => void; onmessage: ((event: { data: string }) => void) | null };
+  process: (inputs: Float32Array[][]) => boolean;
+}
+
+// Evaluate the worklet module with a fake AudioWorkletGlobalScope
+const createProcessor = () => {
+  const messages: PcmBatchMessage[] = [];
+  let Processor: (new () => FakeProcessor) | undefined;
+  class AudioWorkletProcessor {
+    port = {
+      postMessage: (message: PcmBatchMessage) => messages.push(message),
+      onmessage: null,
+    };
+  }
+  new Function("AudioWorkletProcessor", "registerProcessor", PROCESSOR_SOURCE)(
+    AudioWorkletProcessor,
+    (_name: string, processor: new () => FakeProcessor) => {
+      Processor = processor;
+    }
+  );
+  if (!Processor) throw new Error("processor was not registered");
+  return { processor: new Processor(), messages };
+};
+
+const quantum = (value: number) => [new Float32Array(128).fill(value)];
+
+describe("PCM capture worklet", () => {
+  it("posts render quanta in batches and flushes the remainder as final", () => {
+    const { processor, messages } = createProcessor();
+
+    for (let i = 0; i < 33; i++) {
+      processor.process([quantum(i)]);
+    }
+
+    // 32 quanta fill one batch; the 33rd waits for the next batch or a flush
+    expect(messages).toHaveLength(1);
+    expect(messages[0].final).toBe(false);
+    expect(messages[0].channels[0].length).toBe(4096);
+    expect(messages[0].channels[0][31 * 128]).toBe(31);
+
+    processor.port.onmessage?.({ data: "flush" });
+
+    expect(messages[1].final).toBe(true);
+    expect(Array.from(messages[1].channels[0])).toEqual(Array(128).fill(32));
+  });
+
+  it("skips quanta while paused", () => {
+    const { processor, messages } = createProcessor();
+
+    processor.process([quantum(1)]);
+    processor.port.onmessage?.({ data: "pause" });
+    processor.process([quantum(2)]);
+    processor.port.onmessage?.({ data: "resume" });
+    processor.process([quantum(3)]);
+    processor.port.onmessage?.({ data: "flush" });
+
+    expect(messages).toHaveLength(1);
+    expect(Array.from(messages[0].channels[0])).toEqual([...Array(128).fill(1), ...Array(128).fill(3)]);
+  });
+});
@@ -0,0 +1,163 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { buildPeakPyramidInWorker, PEAK_WORKER_SOURCE } from "../src/waveform/util-decoder-worker";
+import {
+  buildPeakPyramid,
+  createPeakPyramidFromPeaks,
+  getPeakEnvelope,
+  getPeakModeMax,
+  selectPeakLevel,
+} from "../src/waveform/util-peak-pyramid";
+
+describe("buildPeakPyramid", () => {
+  it("builds halving min/max levels down to a single peak", () => {
+    // 4 blocks of 128 samples with increasing amplitude
+    const channelData = new Float32Array(512);
+    for (let block = 0; block < 4; block++) {
+      channelData[block * 128] = -(block + 1) / 10;
+      channelData[block * 128 + 1] = (block + 1) / 8;
+    }
+
+    const pyramid = buildPeakPyramid(channelData);
+
+    expect(pyramid.levels.map((level) => level.min.length)).toEqual([4, 2, 1]);
+    expect(Array.from(pyramid.levels[1].min)).toEqual([-0.2, -0.4].map(Math.fround));
+    expect(Array.from(pyramid.levels[1].max)).toEqual([0.25, 0.5]);
+    expect(pyramid.maxAmplitude).toBe(0.5);
+  });
+
+  it("reports progress with a partial preview, ending with the full pyramid", () => {
+    const channelData = new Float32Array(128 * 300).fill(0.5);
+    const onProgress = vi.fn();
+    const pyramid = buildPeakPyramid(channelData, onProgress);
+
+    const [fraction, partial] = onProgress.mock.calls[1];
+    expect(fraction).toBeGreaterThan(0);
+    expect(fraction).toBeLessThan(1);
+    // Preview spans the whole duration; only the processed part is filled in
+    expect(partial.levels[0].max.length).toBe(300);
+    expect(partial.levels[0].max[0]).toBe(0.5);
+    expect(partial.levels[0].max[299]).toBe(0);
+
+    expect(onProgress).toHaveBeenLastCalledWith(1, pyramid);
+  });
+
+  it("returns an empty pyramid for empty channel data", () => {
+    expect(buildPeakPyramid(new Float32Array(0))).toEqual({ levels: [], maxAmplitude: 0 });
+  });
+});
+
+describe("peak modes", () => {
+  // Two blocks: a loud spike, then a steady asymmetric tone
+  const channelData = new Float32Array(256);
+  channelData[0] = 1;
+  channelData.fill(0.5, 128, 192);
+  channelData.fill(-0.25, 192, 256);
+  const pyramid = buildPeakPyramid(channelData);
+  const [base] = pyramid.levels;
+
+  it("stores mean and mean square per block and merges them per level", () => {
+    expect(Array.from(base.mean)).toEqual([1 / 128, 0.375]);
+    expect(Array.from(base.meanSquare)).toEqual([1 / 128, (0.25 + 0.0625) / 2]);
+    expect(pyramid.levels[1].mean[0]).toBeCloseTo((1 / 128 + 0.375) / 2);
+  });
+
+  it("summarizes blocks per mode", () => {
+    expect(getPeakEnvelope(base, 1, 2, "average")).toEqual({ min: -0.375, max: 0.375 });
+    expect(getPeakEnvelope(base, 1, 2, "rms").max).toBeCloseTo(Math.sqrt(0.15625));
+    expect(getPeakEnvelope(base, 1, 2, "peak")).toEqual({ min: -0.5, max: 0.5 });
+    // Asymmetric envelope keeps the signed extremes
+    expect(getPeakEnvelope(base, 1, 2, "minmax")).toEqual({ min: -0.25, max: 0.5 });
+  });
+
+  it("normalizes averaged modes against the loudest block of the level", () => {
+    expect(getPeakModeMax(pyramid, base, "peak")).toBe(1);
+    expect(getPeakModeMax(pyramid, base, "average")).toBe(0.375);
+  });
+});
+
+describe("selectPeakLevel", () => {
+  it("picks the coarsest level that still covers the requested count", () => {
+    const pyramid = createPeakPyramidFromPeaks([0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8]);
+
+    expect(selectPeakLevel(pyramid, 3)?.min.length).toBe(4);
+    expect(selectPeakLevel(pyramid, 8)?.min.length).toBe(8);
+    // Wider than the finest level: fall back to the finest level
+    expect(selectPeakLevel(pyramid, 100)?.min.length).toBe(8);
+  });
+});
+
+describe("PEAK_WORKER_SOURCE", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("runs standalone and posts the same progress and pyramid as the main thread builder", () => {
+    const channelData = Float32Array.from({ length: 128 * 300 }, (_, i) => Math.sin(i / 7));
+    // Evaluate the script with nothing in scope but a fake worker global
+    const worker = { postMessage: vi.fn(), onmessage: null as ((event: { data: Float32Array }) => void) | null };
+    new Function("self", PEAK_WORKER_SOURCE)(worker);
+    worker.onmessage?.({ data: channelData });
+
+    const onProgress = vi.fn();
+    const pyramid = buildPeakPyramid(channelData, onProgress);
+    const messages = worker.postMessage.mock.calls.map(([message]) => message);
+    const progress = onProgress.mock.calls.slice(0, -1);
+
+    expect(messages.slice(0, -1)).toEqual(
+      progress.map(([fraction, partial]) => ({ type: "progress", fraction, partial }))
+    );
+    expect(messages.at(-1)).toEqual({ type: "done", pyramid });
+  });
+
+  it("reports the same progress through buildPeakPyramidInWorker as the main thread builder", async () => {
+    // Run the script synchronously in place of a real worker
+    class FakeWorker {
+      onmessage: ((event: { data: unknown }) => void) | null = null;
+      onerror = null;
+      private scope = {
+        postMessage: (data: unknown) => this.onmessage?.({ data }),
+        onmessage: null as ((event: { data: Float32Array }) => void) | null,
+      };
+      constructor() {
+        new Function("self", PEAK_WORKER_SOURCE)(this.scope);
+      }
+      postMessage(data: Float32Array) {
+        this.scope.onmessage?.({ data });
+      }
+      terminate() {}
+    }
+    vi.stubGlobal("Worker", FakeWorker);
+    vi.stubGlobal("URL", { createObjectURL: () => "blob:peaks", revokeObjectURL: () => {} });
+
+    const channelData = Float32Array.from({ length: 128 * 300 }, (_, i) => Math.cos(i / 5));
+    const workerProgress = vi.fn();
+    const mainProgress = vi.fn();
+    const pyramid = await buildPeakPyramidInWorker(channelData, workerProgress);
+
+    expect(pyramid).toEqual(buildPeakPyramid(channelData, mainProgress));
+    expect(workerProgress.mock.calls).toEqual(mainProgress.mock.calls);
+  });
+
+  it("terminates the worker and rejects when aborted", async () => {
+    const terminate = vi.fn();
+    const revokeObjectURL = vi.fn();
+    vi.stubGlobal(
+      "Worker",
+      class {
+        onmessage = null;
+        onerror = null;
+        postMessage() {}
+        terminate = terminate;
+      }
+    );
+    vi.stubGlobal("URL", { createObjectURL: () => "blob:peaks", revokeObjectURL });
+
+    const controller = new AbortController();
+    const pending = buildPeakPyramidInWorker(new Float32Array(128), undefined, controller.signal);
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ name: "AbortError" });
+    expect(terminate).toHaveBeenCalledTimes(1);
+    expect(revokeObjectURL).toHaveBeenCalledWith("blob:peaks");
+  });
+});
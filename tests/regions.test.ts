@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createRegionId,
+  getRegionBounds,
+  isInsideRegion,
+  moveRegion,
+  resizeRegion,
+  spanRegion,
+  upsertRegion,
+} from "../src/waveform/util-regions";
+
+const regions = [
+  { id: "a", start: 1, end: 3 },
+  { id: "b", start: 5, end: 7 },
+  { id: "c", start: 8, end: 9 },
+];
+
+describe("getRegionBounds", () => {
+  it("limits the free range to the neighbors with prevent", () => {
+    expect(getRegionBounds(regions, "b", 5, 7, 10, "prevent")).toEqual({ min: 3, max: 8 });
+    expect(getRegionBounds(regions, "b", 5, 7, 10, "allow")).toEqual({ min: 0, max: 10 });
+  });
+});
+
+describe("resizeRegion", () => {
+  it("stops edges at neighbors and at the other edge", () => {
+    expect(resizeRegion(regions, regions[1], "start", 2, 10, "prevent")).toMatchObject({ start: 3, end: 7 });
+    expect(resizeRegion(regions, regions[1], "start", 2, 10, "allow")).toMatchObject({ start: 2, end: 7 });
+    expect(resizeRegion(regions, regions[1], "end", 4, 10, "allow")).toMatchObject({ start: 5, end: 5 });
+  });
+});
+
+describe("moveRegion", () => {
+  it("keeps the length and clamps to the duration or neighbors", () => {
+    expect(moveRegion(regions, regions[2], 12, 10, "allow")).toMatchObject({ start: 9, end: 10 });
+    expect(moveRegion(regions, regions[1], 7, 10, "prevent")).toMatchObject({ start: 6, end: 8 });
+    expect(moveRegion(regions, regions[1], -2, 10, "prevent")).toMatchObject({ start: 3, end: 5 });
+  });
+});
+
+describe("spanRegion", () => {
+  it("spans from the anchor in either direction", () => {
+    const region = { id: "new", start: 4, end: 4 };
+    expect(spanRegion(regions, region, 4, 6, 10, "allow")).toMatchObject({ start: 4, end: 6 });
+    expect(spanRegion(regions, region, 4, 6, 10, "prevent")).toMatchObject({ start: 4, end: 5 });
+    expect(spanRegion(regions, region, 4, 0, 10, "prevent")).toMatchObject({ start: 3, end: 4 });
+  });
+});
+
+describe("isInsideRegion / upsertRegion", () => {
+  it("finds regions under a time and replaces or appends by id", () => {
+    expect(isInsideRegion(regions, 6)).toBe(true);
+    expect(isInsideRegion(regions, 4)).toBe(false);
+
+    expect(upsertRegion(regions, { id: "b", start: 4, end: 6 })[1]).toEqual({ id: "b", start: 4, end: 6 });
+    expect(upsertRegion(regions, { id: "d", start: 0, end: 1 })).toHaveLength(4);
+  });
+});
+
+describe("createRegionId", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("draws a new id when the random one is already taken", () => {
+    const randomUUID = vi.fn().mockReturnValueOnce("b").mockReturnValueOnce("e");
+    vi.stubGlobal("crypto", { randomUUID });
+
+    expect(createRegionId(regions)).toBe("e");
+    expect(randomUUID).toHaveBeenCalledTimes(2);
+  });
+
+  it("falls back to prefixed random ids without crypto.randomUUID", () => {
+    vi.stubGlobal("crypto", {});
+
+    const id = createRegionId(regions);
+    expect(id).toMatch(/^wavekit-region-/);
+    expect(createRegionId(regions)).not.toBe(id);
+  });
+});
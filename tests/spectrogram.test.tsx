@@ -0,0 +1,118 @@
+import { cleanup, fireEvent, render, screen } from "@testing-library/react";
+import { createRef } from "react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { AudioSpectrogram, type AudioSpectrogramRef } from "../src/spectrogram";
+import {
+  createColorLookup,
+  createSpectrogramPixels,
+  getFrequencyAtPosition,
+} from "../src/spectrogram/util-spectrogram-image";
+import { computeSpectrogram, computeSpectrogramAsync } from "../src/spectrogram/util-stft";
+
+if (!global.ResizeObserver) {
+  // @ts-expect-error - jsdom shim
+  global.ResizeObserver = class {
+    observe() {}
+    disconnect() {}
+  };
+}
+
+afterEach(() => {
+  cleanup();
+});
+
+const sine = (frequency: number, sampleRate: number, length: number) =>
+  Float32Array.from({ length }, (_, i) => Math.sin((2 * Math.PI * frequency * i) / sampleRate));
+
+describe("computeSpectrogram", () => {
+  it("peaks near 0 dB at the bin of a full-scale sine", () => {
+    // 1000 Hz at 8 kHz with a 256-point FFT lands exactly on bin 32
+    const data = computeSpectrogram(sine(1000, 8000, 8000), 8000, { fftSize: 256 });
+    const frame = data.magnitudes.subarray(10 * data.binCount, 11 * data.binCount);
+    const loudest = frame.indexOf(Math.max(...frame));
+
+    expect(data.binCount).toBe(128);
+    expect(data.duration).toBe(1);
+    expect(loudest).toBe(32);
+    expect(frame[loudest]).toBeCloseTo(0, 0);
+    expect(frame[100]).toBeLessThan(-60);
+  });
+
+  it("analyzes every sample of long files by averaging FFTs across each hop", async () => {
+    // 4096 frames with a 64-sample hop; a click halfway between two frame starts
+    const samples = new Float32Array(4096 * 64);
+    samples.fill(1, 30, 34);
+    const data = computeSpectrogram(samples, 8000, { fftSize: 16 });
+
+    expect(data.frameCount).toBe(4096);
+    expect(Math.max(...data.magnitudes.subarray(0, data.binCount))).toBeGreaterThan(-40);
+    expect(Math.max(...data.magnitudes.subarray(2 * data.binCount, 3 * data.binCount))).toBeLessThan(-100);
+
+    // The chunked version produces the same frames
+    expect(await computeSpectrogramAsync(samples, 8000, { fftSize: 16 })).toEqual(data);
+  });
+
+  it("stops chunked computation when aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(computeSpectrogramAsync(sine(1000, 8000, 8000), 8000, {}, controller.signal)).rejects.toThrow();
+  });
+
+  it("rejects FFT sizes that are not powers of 2", () => {
+    expect(() => computeSpectrogram(new Float32Array(10), 8000, { fftSize: 1000 })).toThrow(/power of 2/);
+  });
+});
+
+describe("spectrogram image", () => {
+  it("maps axis positions through linear, log and mel scales", () => {
+    expect(getFrequencyAtPosition(0.5, "linear", 0, 8000)).toBe(4000);
+    expect(getFrequencyAtPosition(0.5, "log", 0, 2000)).toBeCloseTo(200);
+    expect(getFrequencyAtPosition(0, "mel", 0, 8000)).toBe(0);
+    expect(getFrequencyAtPosition(0.5, "mel", 0, 8000)).toBeLessThan(4000);
+  });
+
+  it("interpolates color stops and paints the top row as the highest frequency", () => {
+    expect(Array.from(createColorLookup(["#000000", "#ffffff"]).slice(0, 3))).toEqual([0, 0, 0]);
+    expect(Array.from(createColorLookup("grayscale").slice(255 * 3))).toEqual([255, 255, 255]);
+
+    // One frame, loud low bin and silent high bin
+    const data = { magnitudes: Float32Array.from([0, -100]), frameCount: 1, binCount: 2, sampleRate: 4, duration: 1 };
+    const pixels = createSpectrogramPixels(data, 4, {
+      frequencyScale: "linear",
+      minFrequency: 0,
+      maxFrequency: 2,
+      minDecibels: -90,
+      maxDecibels: 0,
+      colorMap: "grayscale",
+    });
+
+    expect(pixels[0]).toBe(0);
+    expect(pixels[3 * 4]).toBe(255);
+  });
+});
+
+describe("AudioSpectrogram", () => {
+  it("exposes the canvas through its ref like AudioWaveform", () => {
+    const ref = createRef<AudioSpectrogramRef>();
+    render(<AudioSpectrogram ref={ref} />);
+
+    expect(ref.current?.canvas).toBe(screen.getByRole("img", { name: "Audio spectrogram" }));
+  });
+
+  it("seeks on click and with the keyboard", () => {
+    const onSeek = vi.fn();
+    render(<AudioSpectrogram duration={10} currentTime={2} onSeek={onSeek} />);
+
+    const canvas = screen.getByRole("slider", { name: "Audio seek" }) as HTMLCanvasElement;
+    Object.defineProperty(canvas, "getBoundingClientRect", {
+      value: () => ({ left: 0, top: 0, right: 100, bottom: 10, width: 100, height: 10, x: 0, y: 0 }),
+    });
+
+    fireEvent.click(canvas, { clientX: 40 });
+    fireEvent.keyDown(canvas, { key: "ArrowRight" });
+
+    expect(onSeek).toHaveBeenNthCalledWith(1, 4);
+    expect(onSeek).toHaveBeenNthCalledWith(2, 7);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import {
+  createPeakHoldState,
+  getLogFrequencyBars,
+  PEAK_HOLD_TIME,
+  updatePeakHold,
+} from "../src/recorder/live-recorder/util-spectrum";
+
+describe("getLogFrequencyBars", () => {
+  it("spreads low frequencies over more bars than high ones", () => {
+    // 1024 bins up to 24 kHz (~23 Hz each): a tone at ~1 kHz and one at ~12 kHz
+    const data = new Uint8Array(1024);
+    data[43] = 255;
+    data[512] = 128;
+
+    const bars = getLogFrequencyBars(data, 10, 48000);
+
+    expect(bars).toHaveLength(10);
+    // 20 Hz-24 kHz in 10 log bands: 1 kHz falls in band 5, 12 kHz in band 9
+    expect(bars.indexOf(1)).toBe(5);
+    expect(bars[9]).toBeCloseTo(128 / 255);
+    expect(bars.filter((level) => level > 0)).toHaveLength(2);
+  });
+});
+
+describe("updatePeakHold", () => {
+  it("holds caps, then lets them fall no lower than the current bar", () => {
+    const state = createPeakHoldState();
+
+    updatePeakHold(state, [0.8, 0.2], 1000, 1);
+    updatePeakHold(state, [0.1, 0.5], 1100, 1);
+    expect(state.levels).toEqual([0.8, 0.5]);
+
+    // Past the hold time: falls 1 level per second over the 0.5s since the last frame
+    updatePeakHold(state, [0.1, 0.5], 1100 + PEAK_HOLD_TIME, 1);
+    expect(state.levels[0]).toBeCloseTo(0.3);
+    expect(state.levels[1]).toBe(0.5);
+
+    updatePeakHold(state, [0.1, 0.5], 2600, 1);
+    expect(state.levels[0]).toBeCloseTo(0.1);
+  });
+});
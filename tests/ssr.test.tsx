@@ -7,6 +7,7 @@ import { afterAll, beforeAll, describe, expect, it } from "vitest";
 import { LiveRecorder } from "../src/recorder/live-recorder";
 import { LiveStreamingRecorder } from "../src/recorder/live-streaming/recorder";
 import { LiveStreamingStackRecorder } from "../src/recorder/live-streaming/stack-recorder";
+import { AudioSpectrogram } from "../src/spectrogram";
 import { AudioWaveform } from "../src/waveform";
 
 describe("SSR Compatibility", () => {
@@ -34,6 +35,17 @@ describe("SSR Compatibility", () => {
     }).not.toThrow();
   });
 
+  it("LiveRecorder compound renders without window access errors", () => {
+    expect(() => {
+      renderToString(
+        <LiveRecorder.Root mediaRecorder={null}>
+          <LiveRecorder.Canvas />
+          <LiveRecorder.Bars />
+        </LiveRecorder.Root>
+      );
+    }).not.toThrow();
+  });
+
   it("LiveStreamingRecorder renders without window access errors", () => {
     expect(() => {
       renderToString(
@@ -49,4 +61,10 @@ describe("SSR Compatibility", () => {
       renderToString(<LiveStreamingStackRecorder mediaRecorder={null} />);
     }).not.toThrow();
   });
+
+  it("AudioSpectrogram renders without window access errors", () => {
+    expect(() => {
+      renderToString(<AudioSpectrogram blob={null} />);
+    }).not.toThrow();
+  });
 });
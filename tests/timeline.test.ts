@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { drawTimeline, formatTimelineLabel, getTimelineIntervals } from "../src/waveform/util-timeline";
+
+describe("getTimelineIntervals", () => {
+  it("picks wider intervals as the waveform zooms out", () => {
+    expect(getTimelineIntervals(100)).toEqual({ major: 1, minor: 0.1 });
+    expect(getTimelineIntervals(10)).toEqual({ major: 10, minor: 1 });
+    expect(getTimelineIntervals(0.5)).toEqual({ major: 120, minor: 30 });
+  });
+});
+
+describe("formatTimelineLabel", () => {
+  it("adds tenths only for sub-second intervals", () => {
+    expect(formatTimelineLabel(75, 5)).toBe("1:15");
+    expect(formatTimelineLabel(1.5, 0.5)).toBe("0:01.5");
+  });
+});
+
+describe("drawTimeline", () => {
+  it("labels only the visible major ticks, offset by the scroll position", () => {
+    const labels: [string, number][] = [];
+    const ctx = {
+      save() {},
+      restore() {},
+      fillRect() {},
+      fillText(text: string, x: number) {
+        labels.push([text, x]);
+      },
+    } as unknown as CanvasRenderingContext2D;
+
+    // 10 px/s scrolled to 15s: the 200px view shows 15s-35s
+    drawTimeline(ctx, {
+      pixelsPerSecond: 10,
+      offset: 150,
+      width: 200,
+      height: 40,
+      duration: 60,
+      color: "#000",
+      font: "10px sans-serif",
+    });
+
+    expect(labels).toEqual([
+      ["0:20", 53],
+      ["0:30", 153],
+    ]);
+  });
+});
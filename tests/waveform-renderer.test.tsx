@@ -1,5 +1,5 @@
-import { fireEvent, render } from "@testing-library/react";
-import { describe, expect, it, vi } from "vitest";
+import { cleanup, fireEvent, render, screen } from "@testing-library/react";
+import { afterEach, describe, expect, it, vi } from "vitest";
 import { WaveformRenderer } from "../src/waveform/waveform-renderer";
 
 if (!global.ResizeObserver) {
@@ -10,6 +10,9 @@ if (!global.ResizeObserver) {
   };
 }
 
+const mouse = { pointerId: 1, pointerType: "mouse", isPrimary: true };
+const touch = { pointerId: 2, pointerType: "touch", isPrimary: true };
+
 const mockCanvasRect = (canvas: HTMLCanvasElement, width = 100) => {
   Object.defineProperty(canvas, "getBoundingClientRect", {
     value: () => ({
@@ -26,6 +29,57 @@ const mockCanvasRect = (canvas: HTMLCanvasElement, width = 100) => {
   });
 };
 
+// Records fillRect calls of the latest frame with the fillStyle they were drawn in
+const mockCanvasContext = () => {
+  const fills: { x: number; fillStyle: unknown }[] = [];
+  const clips: number[][] = [];
+  let pendingRect: number[] = [];
+  const ctx = {
+    fillStyle: "" as unknown,
+    setTransform() {},
+    clearRect() {
+      fills.length = 0;
+      clips.length = 0;
+    },
+    save() {},
+    restore() {},
+    beginPath() {},
+    rect(...args: number[]) {
+      pendingRect = args;
+    },
+    clip() {
+      clips.push(pendingRect);
+    },
+    fillRect(x: number) {
+      fills.push({ x, fillStyle: ctx.fillStyle });
+    },
+    createLinearGradient: () => ({ addColorStop() {} }),
+  };
+  vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockReturnValue(ctx as unknown as CanvasRenderingContext2D);
+  // Report a 100x10 canvas and draw synchronously
+  vi.stubGlobal(
+    "ResizeObserver",
+    class {
+      constructor(private callback: ResizeObserverCallback) {}
+      observe() {
+        this.callback([{ contentRect: { width: 100, height: 10 } } as ResizeObserverEntry], this as never);
+      }
+      disconnect() {}
+    }
+  );
+  vi.stubGlobal("requestAnimationFrame", (callback: FrameRequestCallback) => {
+    callback(0);
+    return 1;
+  });
+  return { fills, clips };
+};
+
+afterEach(() => {
+  cleanup();
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
 describe("WaveformRenderer", () => {
   it("fires onSeek and onClick when drag-to-seek is disabled", () => {
     const onSeek = vi.fn();
@@ -68,4 +122,439 @@ describe("WaveformRenderer", () => {
     expect(onSeek).not.toHaveBeenCalled();
     expect(onClick).toHaveBeenCalledTimes(1);
   });
+
+  it("drags the selection end handle instead of seeking", () => {
+    const onSeekStart = vi.fn();
+    const onSelectionChange = vi.fn();
+    const { container } = render(
+      <WaveformRenderer
+        peaks={[0.1, 0.2, 0.3]}
+        duration={10}
+        selection={{ start: 2, end: 6 }}
+        onSelectionChange={onSelectionChange}
+        onSeekStart={onSeekStart}
+      />
+    );
+
+    const canvas = container.querySelector("canvas") as HTMLCanvasElement;
+    mockCanvasRect(canvas, 100);
+
+    fireEvent.pointerDown(canvas, { ...mouse, clientX: 61 });
+    fireEvent.pointerMove(canvas, { ...mouse, clientX: 80 });
+    fireEvent.pointerUp(canvas, { ...mouse, clientX: 80 });
+
+    expect(onSeekStart).not.toHaveBeenCalled();
+    expect(onSelectionChange).toHaveBeenLastCalledWith({ start: 2, end: 8 });
+  });
+
+  it("keeps selection edges from crossing while dragging", () => {
+    const onSelectionChange = vi.fn();
+    const { container } = render(
+      <WaveformRenderer
+        peaks={[0.1, 0.2, 0.3]}
+        duration={10}
+        selection={{ start: 2, end: 6 }}
+        onSelectionChange={onSelectionChange}
+      />
+    );
+
+    const canvas = container.querySelector("canvas") as HTMLCanvasElement;
+    mockCanvasRect(canvas, 100);
+
+    fireEvent.pointerDown(canvas, { ...mouse, clientX: 20 });
+    fireEvent.pointerMove(canvas, { ...mouse, clientX: 90 });
+
+    expect(onSelectionChange).toHaveBeenLastCalledWith({ start: 6, end: 6 });
+  });
+
+  it("draws a new selection by dragging when none exists", () => {
+    const onSelectionChange = vi.fn();
+    const { container } = render(
+      <WaveformRenderer peaks={[0.1, 0.2, 0.3]} duration={10} selection={null} onSelectionChange={onSelectionChange} />
+    );
+
+    const canvas = container.querySelector("canvas") as HTMLCanvasElement;
+    mockCanvasRect(canvas, 100);
+
+    fireEvent.pointerDown(canvas, { ...mouse, clientX: 70 });
+    fireEvent.pointerMove(canvas, { ...mouse, clientX: 30 });
+    fireEvent.pointerUp(canvas, { ...mouse, clientX: 30 });
+
+    expect(onSelectionChange).toHaveBeenLastCalledWith({ start: 3, end: 7 });
+  });
+
+  it("seeks on taps and ignores jitter where a new selection would be drawn", () => {
+    const onSelectionChange = vi.fn();
+    const onSeekStart = vi.fn();
+    const onSeekEnd = vi.fn();
+    const { container } = render(
+      <WaveformRenderer
+        peaks={[0.1, 0.2, 0.3]}
+        duration={10}
+        selection={null}
+        onSelectionChange={onSelectionChange}
+        onSeekStart={onSeekStart}
+        onSeekEnd={onSeekEnd}
+      />
+    );
+
+    const canvas = container.querySelector("canvas") as HTMLCanvasElement;
+    mockCanvasRect(canvas, 100);
+
+    fireEvent.pointerDown(canvas, { ...mouse, clientX: 40 });
+    fireEvent.pointerMove(canvas, { ...mouse, clientX: 41 });
+    fireEvent.pointerUp(canvas, { ...mouse, clientX: 41 });
+
+    expect(onSelectionChange).not.toHaveBeenCalled();
+    expect(onSeekStart).toHaveBeenCalledTimes(1);
+    expect(onSeekEnd).toHaveBeenCalledWith(4.1);
+  });
+
+  it("draws a new selection over an existing one when dragging outside its handles", () => {
+    const onSelectionChange = vi.fn();
+    const { container } = render(
+      <WaveformRenderer
+        peaks={[0.1, 0.2, 0.3]}
+        duration={10}
+        selection={{ start: 2, end: 4 }}
+        onSelectionChange={onSelectionChange}
+      />
+    );
+
+    const canvas = container.querySelector("canvas") as HTMLCanvasElement;
+    mockCanvasRect(canvas, 100);
+
+    fireEvent.pointerDown(canvas, { ...mouse, clientX: 60 });
+    fireEvent.pointerMove(canvas, { ...mouse, clientX: 90 });
+    fireEvent.pointerUp(canvas, { ...mouse, clientX: 90 });
+
+    expect(onSelectionChange).toHaveBeenCalledTimes(2);
+    expect(onSelectionChange).toHaveBeenLastCalledWith({ start: 6, end: 9 });
+  });
+
+  it("maps clicks through the scrolled viewport when zoomed in", () => {
+    const onSeek = vi.fn();
+    const { container } = render(<WaveformRenderer peaks={[0.1, 0.2, 0.3]} duration={10} zoom={20} onSeek={onSeek} />);
+
+    const canvas = container.querySelector("canvas") as HTMLCanvasElement;
+    mockCanvasRect(canvas, 100);
+
+    // 200px of content in a 100px view: scroll halfway, then click the left edge
+    fireEvent.wheel(canvas, { deltaY: 50, shiftKey: true });
+    fireEvent.click(canvas, { clientX: 0 });
+
+    expect(onSeek).toHaveBeenCalledWith(2.5);
+  });
+
+  it("keeps a manual scroll away from the playhead until playback moves it back into view", () => {
+    mockCanvasContext();
+    const onSeek = vi.fn();
+    const props = { peaks: [0.1, 0.2, 0.3], duration: 10, zoom: 20, onSeek };
+    const { container, rerender } = render(<WaveformRenderer {...props} currentTime={1} />);
+
+    const canvas = container.querySelector("canvas") as HTMLCanvasElement;
+    mockCanvasRect(canvas, 100);
+
+    // Scroll 80px right: the playhead (20px) leaves the view, but redraws don't jump back
+    fireEvent.wheel(canvas, { deltaY: 80, shiftKey: true });
+    rerender(<WaveformRenderer {...props} currentTime={1} appearance={{ barColor: "red" }} />);
+    fireEvent.click(canvas, { clientX: 0 });
+    expect(onSeek).toHaveBeenLastCalledWith(4);
+
+    // Playhead enters the view (120px), then crosses its right edge (190px): follow pages to it
+    rerender(<WaveformRenderer {...props} currentTime={6} />);
+    rerender(<WaveformRenderer {...props} currentTime={9.5} />);
+    fireEvent.click(canvas, { clientX: 0 });
+    expect(onSeek).toHaveBeenLastCalledWith(5);
+  });
+
+  it("pans a zoomed view by dragging when no other drag applies, taps still seek", () => {
+    const onSeek = vi.fn();
+    const { container } = render(<WaveformRenderer peaks={[0.1, 0.2, 0.3]} duration={10} zoom={20} onSeek={onSeek} />);
+
+    const canvas = container.querySelector("canvas") as HTMLCanvasElement;
+    mockCanvasRect(canvas, 100);
+    expect(canvas.style.touchAction).toBe("pan-y");
+
+    // Drag 50px left: the view scrolls 50px right and the trailing click doesn't seek
+    fireEvent.pointerDown(canvas, { ...touch, clientX: 80 });
+    fireEvent.pointerMove(canvas, { ...touch, clientX: 30 });
+    fireEvent.pointerUp(canvas, { ...touch, clientX: 30 });
+    fireEvent.click(canvas, { clientX: 30 });
+    expect(onSeek).not.toHaveBeenCalled();
+
+    fireEvent.click(canvas, { clientX: 0 });
+    expect(onSeek).toHaveBeenCalledWith(2.5);
+  });
+
+  it("pinch-zooms around the fingers' midpoint with two pointers", () => {
+    const onZoomChange = vi.fn();
+    const onSeekStart = vi.fn();
+    const onSeek = vi.fn();
+    const props = { peaks: [0.1, 0.2, 0.3], duration: 10, maxZoom: 100, onZoomChange, onSeek };
+    const { container, rerender } = render(<WaveformRenderer {...props} zoom={20} onSeekStart={onSeekStart} />);
+
+    const canvas = container.querySelector("canvas") as HTMLCanvasElement;
+    mockCanvasRect(canvas, 100);
+
+    fireEvent.pointerDown(canvas, { ...touch, clientX: 40 });
+    fireEvent.pointerDown(canvas, { pointerId: 3, pointerType: "touch", isPrimary: false, clientX: 60 });
+    // Spreading the fingers from 20px to 40px doubles the zoom; the first finger never started a seek drag
+    fireEvent.pointerMove(canvas, { pointerId: 3, pointerType: "touch", isPrimary: false, clientX: 80 });
+    expect(onZoomChange).toHaveBeenLastCalledWith(40);
+    expect(onSeekStart).not.toHaveBeenCalled();
+
+    fireEvent.pointerUp(canvas, { pointerId: 3, pointerType: "touch", isPrimary: false, clientX: 80 });
+    fireEvent.pointerUp(canvas, { ...touch, clientX: 40 });
+    rerender(<WaveformRenderer {...props} zoom={40} />);
+
+    // 2.5s stayed under the midpoint (60px): 2.5s * 40px/s - 60px = 40px scrolled
+    fireEvent.click(canvas, { clientX: 0 });
+    expect(onSeek).toHaveBeenCalledWith(1);
+  });
+
+  it("zooms with ctrl + wheel within maxZoom", () => {
+    const onZoomChange = vi.fn();
+    const { container } = render(
+      <WaveformRenderer peaks={[0.1, 0.2, 0.3]} duration={10} zoom={20} maxZoom={30} onZoomChange={onZoomChange} />
+    );
+
+    const canvas = container.querySelector("canvas") as HTMLCanvasElement;
+    mockCanvasRect(canvas, 100);
+
+    fireEvent.wheel(canvas, { deltaY: -1000, ctrlKey: true, clientX: 50 });
+    expect(onZoomChange).toHaveBeenLastCalledWith(30);
+
+    // Zooming out never goes below fit-to-width (100px / 10s)
+    fireEvent.wheel(canvas, { deltaY: 1000, ctrlKey: true, clientX: 50 });
+    expect(onZoomChange).toHaveBeenLastCalledWith(10);
+  });
+
+  it("fills played bars in the progress color up to the playhead", () => {
+    const { fills, clips } = mockCanvasContext();
+    render(
+      <WaveformRenderer
+        peaks={[0.5, 0.5, 0.5, 0.5]}
+        duration={10}
+        currentTime={2.5}
+        appearance={{ barColor: "gray", progressColor: "orange", barWidth: 3, barGap: 1 }}
+      />
+    );
+
+    const played = fills.filter((fill) => fill.fillStyle === "orange");
+    // 25px of 100px: the bar at x=24 is only partially filled (clipped at the playhead)
+    expect(clips).toContainEqual([0, 0, 25, 10]);
+    expect(played.map((fill) => fill.x)).toEqual([0, 4, 8, 12, 16, 20, 24]);
+    expect(fills.filter((fill) => fill.fillStyle === "gray")).toHaveLength(25);
+  });
+
+  it("reports hover time and renders the tooltip under the pointer", () => {
+    const onHover = vi.fn();
+    const { container } = render(
+      <WaveformRenderer
+        peaks={[0.1, 0.2, 0.3]}
+        duration={100}
+        onHover={onHover}
+        renderHoverTooltip={({ formattedTime }) => <span>{formattedTime}</span>}
+      />
+    );
+
+    const canvas = container.querySelector("canvas") as HTMLCanvasElement;
+    mockCanvasRect(canvas, 100);
+
+    fireEvent.pointerMove(canvas, { ...mouse, clientX: 75 });
+    expect(onHover).toHaveBeenLastCalledWith(75);
+    expect(screen.getByText("1:15")).toBeTruthy();
+
+    fireEvent.pointerLeave(canvas, mouse);
+    expect(onHover).toHaveBeenLastCalledWith(null);
+    expect(screen.queryByText("1:15")).toBeNull();
+  });
+
+  it("treats a short touch press as a tap that seeks to the tapped time", () => {
+    const onSeekStart = vi.fn();
+    const onSeekDrag = vi.fn();
+    const onSeekEnd = vi.fn();
+    const { container } = render(
+      <WaveformRenderer
+        peaks={[0.1, 0.2, 0.3]}
+        duration={10}
+        onSeekStart={onSeekStart}
+        onSeekDrag={onSeekDrag}
+        onSeekEnd={onSeekEnd}
+      />
+    );
+
+    const canvas = container.querySelector("canvas") as HTMLCanvasElement;
+    mockCanvasRect(canvas, 100);
+
+    fireEvent.pointerDown(canvas, { ...touch, clientX: 40 });
+    fireEvent.pointerMove(canvas, { ...touch, clientX: 43 });
+    expect(onSeekStart).not.toHaveBeenCalled();
+
+    fireEvent.pointerUp(canvas, { ...touch, clientX: 43 });
+    expect(onSeekStart).toHaveBeenCalledTimes(1);
+    expect(onSeekEnd).toHaveBeenCalledWith(4.3);
+  });
+
+  it("starts a touch drag past the threshold and ignores cancelled presses", () => {
+    const onSeekStart = vi.fn();
+    const onSeekDrag = vi.fn();
+    const onSeekEnd = vi.fn();
+    const { container } = render(
+      <WaveformRenderer
+        peaks={[0.1, 0.2, 0.3]}
+        duration={10}
+        onSeekStart={onSeekStart}
+        onSeekDrag={onSeekDrag}
+        onSeekEnd={onSeekEnd}
+      />
+    );
+
+    const canvas = container.querySelector("canvas") as HTMLCanvasElement;
+    mockCanvasRect(canvas, 100);
+    expect(canvas.style.touchAction).toBe("pan-y pinch-zoom");
+
+    // Vertical scroll: the browser cancels the pointer before it moved horizontally
+    fireEvent.pointerDown(canvas, { ...touch, clientX: 40 });
+    fireEvent.pointerCancel(canvas, { ...touch, clientX: 0 });
+    expect(onSeekStart).not.toHaveBeenCalled();
+    expect(onSeekEnd).not.toHaveBeenCalled();
+
+    fireEvent.pointerDown(canvas, { ...touch, clientX: 40 });
+    fireEvent.pointerMove(canvas, { ...touch, clientX: 60 });
+    expect(onSeekStart).toHaveBeenCalledTimes(1);
+    expect(onSeekDrag).toHaveBeenLastCalledWith(6);
+
+    fireEvent.pointerMove(canvas, { ...touch, clientX: 150 });
+    fireEvent.pointerUp(canvas, { ...touch, clientX: 150 });
+    expect(onSeekEnd).toHaveBeenCalledWith(10);
+  });
+
+  it("clicks a marker without seeking", () => {
+    const onSeek = vi.fn();
+    const onMarkerClick = vi.fn();
+    const marker = { id: "q1", time: 3, label: "Question" };
+    const { container } = render(
+      <WaveformRenderer
+        peaks={[0.1, 0.2, 0.3]}
+        duration={10}
+        markers={[marker]}
+        onSeek={onSeek}
+        onMarkerClick={onMarkerClick}
+      />
+    );
+
+    const canvas = container.querySelector("canvas") as HTMLCanvasElement;
+    mockCanvasRect(canvas, 100);
+
+    fireEvent.pointerDown(canvas, { ...mouse, clientX: 31 });
+    fireEvent.pointerUp(canvas, { ...mouse, clientX: 31 });
+    fireEvent.click(canvas, { clientX: 31 });
+
+    expect(onMarkerClick).toHaveBeenCalledWith(marker);
+    expect(onSeek).not.toHaveBeenCalled();
+  });
+
+  it("drags a span marker keeping its length inside the duration", () => {
+    const onSeekStart = vi.fn();
+    const onMarkerDrag = vi.fn();
+    const onMarkerDragEnd = vi.fn();
+    const { container } = render(
+      <WaveformRenderer
+        peaks={[0.1, 0.2, 0.3]}
+        duration={10}
+        markers={[{ id: "chapter", time: 2, end: 4 }]}
+        onSeekStart={onSeekStart}
+        onMarkerDrag={onMarkerDrag}
+        onMarkerDragEnd={onMarkerDragEnd}
+      />
+    );
+
+    const canvas = container.querySelector("canvas") as HTMLCanvasElement;
+    mockCanvasRect(canvas, 100);
+
+    fireEvent.pointerDown(canvas, { ...mouse, clientX: 20 });
+    fireEvent.pointerMove(canvas, { ...mouse, clientX: 50 });
+    expect(onMarkerDrag).toHaveBeenLastCalledWith({ id: "chapter", time: 5, end: 7 });
+
+    fireEvent.pointerUp(canvas, { ...mouse, clientX: 95 });
+    expect(onMarkerDragEnd).toHaveBeenCalledWith({ id: "chapter", time: 8, end: 10 });
+    expect(onSeekStart).not.toHaveBeenCalled();
+  });
+
+  it("resizes a region by dragging its edge, stopping at a neighbor with prevent", () => {
+    const onSeekStart = vi.fn();
+    const onRegionsChange = vi.fn();
+    const regions = [
+      { id: "a", start: 1, end: 3 },
+      { id: "b", start: 5, end: 7 },
+    ];
+    const { container } = render(
+      <WaveformRenderer
+        peaks={[0.1, 0.2, 0.3]}
+        duration={10}
+        regions={regions}
+        regionOverlap="prevent"
+        onSeekStart={onSeekStart}
+        onRegionsChange={onRegionsChange}
+      />
+    );
+
+    const canvas = container.querySelector("canvas") as HTMLCanvasElement;
+    mockCanvasRect(canvas, 100);
+
+    fireEvent.pointerDown(canvas, { ...mouse, clientX: 50 });
+    fireEvent.pointerMove(canvas, { ...mouse, clientX: 10 });
+    fireEvent.pointerUp(canvas, { ...mouse, clientX: 10 });
+
+    expect(onRegionsChange).toHaveBeenLastCalledWith([regions[0], { id: "b", start: 3, end: 7 }], {
+      type: "update",
+      region: { id: "b", start: 3, end: 7 },
+    });
+    expect(onSeekStart).not.toHaveBeenCalled();
+  });
+
+  it("draws a new region by dragging on empty space", () => {
+    const onRegionsChange = vi.fn();
+    const { container } = render(
+      <WaveformRenderer
+        peaks={[0.1, 0.2, 0.3]}
+        duration={10}
+        regions={[]}
+        createRegionOnDrag
+        onRegionsChange={onRegionsChange}
+      />
+    );
+
+    const canvas = container.querySelector("canvas") as HTMLCanvasElement;
+    mockCanvasRect(canvas, 100);
+
+    fireEvent.pointerDown(canvas, { ...mouse, clientX: 60 });
+    fireEvent.pointerMove(canvas, { ...mouse, clientX: 20 });
+
+    const [next, change] = onRegionsChange.mock.calls[0];
+    expect(change.type).toBe("add");
+    expect(next).toEqual([expect.objectContaining({ start: 2, end: 6 })]);
+  });
+
+  it("adjusts and removes regions from their keyboard sliders", () => {
+    const onRegionsChange = vi.fn();
+    const region = { id: "a", start: 2, end: 4, label: "Intro" };
+    render(
+      <WaveformRenderer peaks={[0.1, 0.2, 0.3]} duration={10} regions={[region]} onRegionsChange={onRegionsChange} />
+    );
+
+    const end = screen.getByRole("slider", { name: "Intro end" });
+    expect(end.getAttribute("aria-valuenow")).toBe("4");
+
+    fireEvent.keyDown(end, { key: "ArrowRight" });
+    expect(onRegionsChange).toHaveBeenLastCalledWith([{ ...region, end: 5 }], {
+      type: "update",
+      region: { ...region, end: 5 },
+    });
+
+    fireEvent.keyDown(screen.getByRole("slider", { name: "Intro start" }), { key: "Delete" });
+    expect(onRegionsChange).toHaveBeenLastCalledWith([], { type: "remove", region });
+  });
 });